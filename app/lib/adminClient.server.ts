@@ -0,0 +1,77 @@
+import prisma from "../db.server";
+import type { AdminContext } from "../webhooks/products.server";
+
+/**
+ * Admin API access outside of a request, for scripts and background jobs.
+ * Uses the access token stored in the shop's session.
+ */
+
+// Using stable API version 2024-10 (matches October24/October25)
+const ADMIN_API_VERSION = "2024-10";
+
+/**
+ * Create an Admin GraphQL client with the same call shape as the one
+ * `authenticate.admin` returns, so it can be passed anywhere an
+ * AdminContext is expected.
+ */
+export function createAdminClient(
+  shopDomain: string,
+  accessToken: string,
+): AdminContext {
+  const shopifyAdminUrl = `https://${shopDomain}/admin/api/${ADMIN_API_VERSION}/graphql.json`;
+
+  return {
+    graphql: async (query, options) => {
+      const response = await fetch(shopifyAdminUrl, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "X-Shopify-Access-Token": accessToken,
+        },
+        body: JSON.stringify({ query, variables: options?.variables }),
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        let errorMessage = `Shopify API error: ${response.status} ${response.statusText}`;
+
+        // Try to parse error details if available
+        try {
+          const errorJson = JSON.parse(errorText);
+          if (errorJson.errors) {
+            errorMessage += `\n  Errors: ${JSON.stringify(errorJson.errors, null, 2)}`;
+          }
+        } catch {
+          // If not JSON, include the raw text
+          if (errorText) {
+            errorMessage += `\n  Response: ${errorText.substring(0, 200)}`;
+          }
+        }
+
+        throw new Error(errorMessage);
+      }
+
+      return response;
+    },
+  };
+}
+
+/**
+ * Latest stored session for a shop, preferring offline sessions (which are
+ * meant for background work) over online ones.
+ */
+export async function getShopSession(
+  shopDomain: string,
+): Promise<{ accessToken: string; expires: Date | null } | null> {
+  for (const isOnline of [false, true]) {
+    const session = await prisma.session.findFirst({
+      where: { shop: shopDomain, isOnline },
+      orderBy: { expires: "desc" },
+      select: { accessToken: true, expires: true },
+    });
+
+    if (session?.accessToken) return session;
+  }
+
+  return null;
+}
@@ -0,0 +1,67 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import {
+  addDecimals,
+  compareDecimals,
+  formatDecimal,
+  getCurrencyDecimalPlaces,
+  getDecimalPlaces,
+  parseDecimal,
+  type Decimal,
+} from "./decimal";
+
+function decimal(value: string): Decimal {
+  const parsed = parseDecimal(value);
+  assert.ok(parsed, `"${value}" should parse`);
+  return parsed;
+}
+
+describe("compareDecimals", () => {
+  it("aligns values with different scales", () => {
+    assert.equal(compareDecimals(decimal("19.99"), decimal("19.990")), 0);
+    assert.equal(compareDecimals(decimal("19.9"), decimal("19.89")), 1);
+    assert.equal(compareDecimals(decimal("5"), decimal("5.001")), -1);
+    assert.equal(compareDecimals(decimal("1e3"), decimal("1000.0")), 0);
+  });
+
+  it("orders negative values", () => {
+    assert.equal(compareDecimals(decimal("-0.5"), decimal("-0.25")), -1);
+    assert.equal(compareDecimals(decimal("-1"), decimal("0.1")), -1);
+    assert.equal(compareDecimals(decimal("-0"), decimal("0")), 0);
+  });
+});
+
+describe("formatDecimal", () => {
+  it("drops trailing zeros and keeps the sign", () => {
+    assert.equal(formatDecimal(decimal("19.90")), "19.9");
+    assert.equal(formatDecimal(decimal("-0.05")), "-0.05");
+    assert.equal(
+      formatDecimal(addDecimals(decimal("0.1"), decimal("0.2"))),
+      "0.3",
+    );
+  });
+});
+
+describe("parseDecimal", () => {
+  it("rejects values that aren't plain numbers", () => {
+    assert.equal(parseDecimal(""), null);
+    assert.equal(parseDecimal("."), null);
+    assert.equal(parseDecimal("1,000"), null);
+    assert.equal(parseDecimal("1e999"), null);
+  });
+});
+
+describe("getDecimalPlaces", () => {
+  it("flags values more precise than the currency allows", () => {
+    assert.equal(getDecimalPlaces(decimal("19.990")), 2);
+    assert.ok(
+      getDecimalPlaces(decimal("19.999")) > getCurrencyDecimalPlaces("USD"),
+    );
+    assert.ok(
+      getDecimalPlaces(decimal("100.5")) > getCurrencyDecimalPlaces("JPY"),
+    );
+    assert.equal(getCurrencyDecimalPlaces("KWD"), 3);
+    assert.equal(getCurrencyDecimalPlaces(null), 2);
+  });
+});
@@ -0,0 +1,126 @@
+/**
+ * Exact decimal numbers for prices and rule values.
+ * Shopify sends prices as strings ("19.99", "19.990"); parsing them into
+ * floats makes equality and boundary comparisons unreliable, so values are
+ * kept as an integer number of units at a given scale instead.
+ * Shared between the server and the rules page, so this module must stay
+ * free of server-only imports.
+ */
+
+// value = units / 10^scale, e.g. 19.99 is { units: 1999n, scale: 2 }.
+export interface Decimal {
+  units: bigint;
+  scale: number;
+}
+
+const DECIMAL_PATTERN = /^([+-])?(\d*)(?:\.(\d*))?(?:e([+-]?\d+))?$/i;
+
+// Guards against absurd exponents like "1e999999" allocating huge strings.
+const MAX_EXPONENT = 100;
+
+/**
+ * Parse a decimal string ("19.99", "-5", ".5", "1e3") or a finite number.
+ * Returns null for anything that isn't a plain decimal number.
+ */
+export function parseDecimal(value: string | number): Decimal | null {
+  const source = typeof value === "number" ? String(value) : value.trim();
+  const match = DECIMAL_PATTERN.exec(source);
+  if (!match) return null;
+
+  const [, sign, whole = "", fraction = "", exponentSource] = match;
+  if (whole.length === 0 && fraction.length === 0) return null;
+
+  const exponent = exponentSource ? Number(exponentSource) : 0;
+  if (Math.abs(exponent) > MAX_EXPONENT) return null;
+
+  let units = BigInt(`${whole}${fraction}` || "0");
+  let scale = fraction.length - exponent;
+  if (scale < 0) {
+    units *= 10n ** BigInt(-scale);
+    scale = 0;
+  }
+
+  return trimDecimal({ units: sign === "-" ? -units : units, scale });
+}
+
+// Drop trailing zeros so "19.90" and "19.9" have the same representation.
+function trimDecimal(value: Decimal): Decimal {
+  let { units, scale } = value;
+  while (scale > 0 && units % 10n === 0n) {
+    units /= 10n;
+    scale--;
+  }
+  return { units, scale };
+}
+
+function rescale(value: Decimal, scale: number): bigint {
+  return value.units * 10n ** BigInt(scale - value.scale);
+}
+
+/**
+ * -1, 0 or 1 as `a` is less than, equal to or greater than `b`.
+ */
+export function compareDecimals(a: Decimal, b: Decimal): -1 | 0 | 1 {
+  const scale = Math.max(a.scale, b.scale);
+  const left = rescale(a, scale);
+  const right = rescale(b, scale);
+  return left < right ? -1 : left > right ? 1 : 0;
+}
+
+export function addDecimals(a: Decimal, b: Decimal): Decimal {
+  const scale = Math.max(a.scale, b.scale);
+  return trimDecimal({ units: rescale(a, scale) + rescale(b, scale), scale });
+}
+
+export function multiplyDecimal(value: Decimal, factor: number): Decimal {
+  return trimDecimal({
+    units: value.units * BigInt(factor),
+    scale: value.scale,
+  });
+}
+
+/**
+ * Number of digits after the decimal point, ignoring trailing zeros.
+ */
+export function getDecimalPlaces(value: Decimal): number {
+  return value.scale;
+}
+
+/**
+ * Plain decimal string without trailing zeros, e.g. "19.9".
+ */
+export function formatDecimal(value: Decimal): string {
+  const negative = value.units < 0n;
+  const digits = (negative ? -value.units : value.units)
+    .toString()
+    .padStart(value.scale + 1, "0");
+  const whole = digits.slice(0, digits.length - value.scale);
+  const fraction = digits.slice(digits.length - value.scale);
+
+  return `${negative ? "-" : ""}${whole}${fraction ? `.${fraction}` : ""}`;
+}
+
+export function decimalToNumber(value: Decimal): number {
+  return Number(formatDecimal(value));
+}
+
+/**
+ * Minor unit digits for a currency, e.g. 2 for USD, 0 for JPY, 3 for KWD.
+ * Unknown or missing currencies fall back to 2.
+ */
+export function getCurrencyDecimalPlaces(
+  currencyCode: string | null | undefined,
+): number {
+  if (!currencyCode) return 2;
+
+  try {
+    return (
+      new Intl.NumberFormat("en", {
+        style: "currency",
+        currency: currencyCode,
+      }).resolvedOptions().maximumFractionDigits ?? 2
+    );
+  } catch {
+    return 2;
+  }
+}
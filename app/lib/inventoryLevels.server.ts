@@ -0,0 +1,99 @@
+import type { Prisma, Product } from "@prisma/client";
+import prisma from "../db.server";
+import type { StoredVariant } from "../webhooks/products.server";
+
+/**
+ * Inventory levels.
+ * Keeps the stored product inventory up to date from inventory_levels/update
+ * webhooks. Stock changes from orders don't reliably send products/update,
+ * so without these the inventory rules would see outdated quantities.
+ * Only totals are stored: no rule field reads the quantity at a single
+ * location.
+ * All operations are scoped by shopId to ensure multi-tenant safety.
+ */
+
+// Conflicting writes to the same product before giving up; the webhook job
+// is then retried later.
+const MAX_WRITE_ATTEMPTS = 3;
+
+function getStoredVariants(product: Product): StoredVariant[] {
+  return Array.isArray(product.variants)
+    ? (product.variants as unknown as StoredVariant[])
+    : [];
+}
+
+/**
+ * The stored product with a variant for the inventory item, if any.
+ * Products stored before inventory item ids were kept are only found once
+ * they are updated or backfilled again.
+ */
+export async function findProductByInventoryItem(
+  shopId: string,
+  inventoryItemId: bigint,
+): Promise<Product | null> {
+  return prisma.product.findFirst({
+    where: {
+      shopId,
+      variants: {
+        array_contains: [{ inventoryItemId: String(inventoryItemId) }],
+      },
+    },
+  });
+}
+
+/**
+ * Set the total available quantity of one variant of a stored product, and
+ * the product's total inventory with it.
+ * The write only applies if the row hasn't changed since it was read, so a
+ * concurrent products/update isn't overwritten with the old variants; on a
+ * conflict the row is read again and the change retried.
+ * Returns the updated product, or null if the quantity didn't change.
+ */
+export async function setVariantInventory(
+  product: Product,
+  inventoryItemId: bigint,
+  quantity: number,
+): Promise<Product | null> {
+  const itemId = String(inventoryItemId);
+  let current: Product | null = product;
+
+  for (let attempt = 0; current && attempt < MAX_WRITE_ATTEMPTS; attempt++) {
+    const variants = getStoredVariants(current);
+    if (
+      !variants.some(
+        (variant) =>
+          variant.inventoryItemId === itemId &&
+          variant.inventoryQuantity !== quantity,
+      )
+    ) {
+      return null;
+    }
+
+    const updated = variants.map((variant) =>
+      variant.inventoryItemId === itemId
+        ? { ...variant, inventoryQuantity: quantity }
+        : variant,
+    );
+
+    const { count } = await prisma.product.updateMany({
+      where: { id: current.id, updatedAt: current.updatedAt },
+      data: {
+        variants: updated as unknown as Prisma.InputJsonValue,
+        totalInventory: updated.reduce(
+          (sum, variant) => sum + (variant.inventoryQuantity ?? 0),
+          0,
+        ),
+      },
+    });
+
+    current = await prisma.product.findUnique({ where: { id: current.id } });
+    if (count > 0) return current;
+  }
+
+  if (current) {
+    throw new Error(
+      `Product ${current.shopifyProductId} kept changing while updating its inventory`,
+    );
+  }
+  return null;
+}
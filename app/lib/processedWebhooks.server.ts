@@ -0,0 +1,62 @@
+import prisma from "../db.server";
+
+/**
+ * Webhook deduplication.
+ * Shopify retries deliveries it didn't get a timely 200 for, so the same
+ * webhook can be delivered more than once. Each delivery id is claimed
+ * before processing, and deliveries whose id was already claimed are
+ * dropped. Ids are kept for PROCESSED_WEBHOOK_RETENTION_DAYS, well past
+ * Shopify's retry period.
+ */
+
+export const PROCESSED_WEBHOOK_RETENTION_DAYS = 7;
+
+/**
+ * Claim a webhook delivery for processing.
+ * Returns false if the delivery was already claimed, i.e. it is a duplicate.
+ */
+export async function claimWebhook(delivery: {
+  webhookId: string;
+  shopDomain: string;
+  topic: string;
+}): Promise<boolean> {
+  const { count } = await prisma.processedWebhook.createMany({
+    data: [delivery],
+    skipDuplicates: true,
+  });
+
+  return count > 0;
+}
+
+/**
+ * Release a claimed delivery after processing failed, so Shopify's retry
+ * is processed instead of being dropped as a duplicate.
+ */
+export async function releaseWebhook(webhookId: string): Promise<void> {
+  try {
+    await prisma.processedWebhook.deleteMany({ where: { webhookId } });
+  } catch (error) {
+    console.warn(`Failed to release webhook ${webhookId}:`, error);
+  }
+}
+
+/**
+ * Delete delivery ids past the retention limit.
+ * Returns the number of ids deleted.
+ */
+export async function pruneProcessedWebhooks(
+  now: Date = new Date(),
+): Promise<number> {
+  const { count } = await prisma.processedWebhook.deleteMany({
+    where: {
+      processedAt: {
+        lt: new Date(
+          now.getTime() -
+            PROCESSED_WEBHOOK_RETENTION_DAYS * 24 * 60 * 60 * 1000,
+        ),
+      },
+    },
+  });
+
+  return count;
+}
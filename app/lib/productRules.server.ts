@@ -1,75 +1,493 @@
+import type { Prisma } from "@prisma/client";
 import prisma from "../db.server";
+import {
+  addDecimals,
+  compareDecimals,
+  decimalToNumber,
+  formatDecimal,
+  multiplyDecimal,
+  parseDecimal,
+  type Decimal,
+} from "./decimal";
+import { parseRuleActions, type RuleAction } from "./ruleActions";
+import {
+  describeRuleCondition,
+  getDefaultVariantMode,
+  getRuleFieldType,
+  parseRuleConditions,
+  splitConditionValue,
+  usesRuleField,
+  type ConditionCombinator,
+  type RuleCondition,
+  type RuleConditionGroup,
+  type RuleConditionNode,
+  type RuleField,
+  type VariantMode,
+} from "./ruleConditions";
+import {
+  getPendingScheduleState,
+  getRuleScheduleState,
+  type RuleScheduleState,
+} from "./ruleScheduleState";
+import { clearRuleMatches, deleteRuleStats } from "./ruleStats.server";
+import { getRuleVersion, recordRuleVersion } from "./ruleVersions.server";
+import { releaseRuleTags, type OwnedTag } from "./tagOwnership.server";
+import {
+  TAG_TEMPLATE_FIELDS,
+  getTagTemplateFields,
+  normalizeTag,
+  renderTagTemplate,
+  type TagTemplateValues,
+} from "./tagTemplates";
 
-// Supported fields and operators for v1
-export type RuleField = "price" | "inventory" | "vendor";
-export type RuleOperator = "gt" | "lt" | "eq";
+export type {
+  ConditionCombinator,
+  RuleCondition,
+  RuleConditionGroup,
+  RuleConditionNode,
+  RuleField,
+  RuleFieldType,
+  RuleOperator,
+  VariantMode,
+} from "./ruleConditions";
 
 export interface ProductRule {
   id: string;
   shopId: string;
-  field: RuleField;
-  operator: RuleOperator;
-  value: string;
+  conditions: RuleConditionGroup;
   tag: string;
+  syncTag: boolean;
+  actions: RuleAction[];
   enabled: boolean;
+  // Rules are evaluated by position, lowest first.
+  position: number;
+  // Of the rules sharing a group, only the first matching one applies.
+  exclusiveGroup: string | null;
+  // When this rule matches, later rules are skipped.
+  stopProcessing: boolean;
+  // The rule only applies from startsAt (inclusive) until endsAt
+  // (exclusive); either may be open-ended.
+  startsAt: Date | null;
+  endsAt: Date | null;
   createdAt: Date;
+  updatedAt: Date;
+}
+
+// The fields of a rule merchants can edit. Position is changed by
+// reordering instead.
+export type ProductRuleData = Omit<
+  ProductRule,
+  "id" | "shopId" | "position" | "createdAt" | "updatedAt"
+>;
+
+export interface VariantForEvaluation {
+  // Prices are decimal strings as sent by Shopify, compared exactly.
+  price?: string | null;
+  compareAtPrice?: string | null;
+  sku?: string | null;
+  inventoryQuantity?: number | null;
+  weight?: number | null; // grams
 }
 
 export interface ProductForEvaluation {
-  price?: number | null;
+  variants?: VariantForEvaluation[];
   totalInventory?: number | null;
+  title?: string | null;
   vendor?: string | null;
+  productType?: string | null;
+  status?: string | null; // "active" | "draft" | "archived"
+  handle?: string | null;
+  tags?: string[];
+}
+
+type ProductRuleRecord = Omit<ProductRule, "conditions" | "actions"> & {
+  conditions: Prisma.JsonValue;
+  actions: Prisma.JsonValue;
+};
+
+function toProductRule(record: ProductRuleRecord): ProductRule {
+  return {
+    ...record,
+    // A malformed tree (e.g. edited by hand in the database) becomes an empty
+    // group, which never matches, instead of breaking evaluation for the shop.
+    conditions: parseRuleConditions(record.conditions) ?? {
+      type: "group",
+      combinator: "and",
+      conditions: [],
+    },
+    actions: parseRuleActions(record.actions) ?? [],
+  };
 }
 
 /**
- * Load all product rules for a specific shop.
+ * Load all product rules for a specific shop, in evaluation order.
  * Multi-tenant safety: always scoped by shopId.
  */
 export async function getRulesForShop(shopId: string): Promise<ProductRule[]> {
   const rules = await prisma.productRule.findMany({
     where: { shopId },
-    orderBy: { createdAt: "asc" },
+    orderBy: [{ position: "asc" }, { createdAt: "asc" }],
   });
 
-  return rules;
+  return rules.map(toProductRule);
 }
 
 /**
- * Create a rule for a shop.
+ * Whether a rule removes the tags it added once it stops matching: sync-mode
+ * rules, and rules with an end time so their tags disappear when the
+ * schedule ends.
+ */
+export function removesOwnTags(rule: ProductRule): boolean {
+  return rule.syncTag || rule.endsAt != null;
+}
+
+/**
+ * Whether a rule's outcome can change with inventory: its conditions test
+ * inventory, or its tag template renders it.
+ */
+export function dependsOnInventory(rule: ProductRule): boolean {
+  return (
+    usesRuleField(rule.conditions, ["inventory", "variantInventory"]) ||
+    getTagTemplateFields(rule.tag).includes("inventory")
+  );
+}
+
+function toRuleData(data: ProductRuleData) {
+  return {
+    conditions: data.conditions as unknown as Prisma.InputJsonValue,
+    tag: data.tag,
+    syncTag: data.syncTag,
+    actions: data.actions as unknown as Prisma.InputJsonValue,
+    enabled: data.enabled,
+    exclusiveGroup: data.exclusiveGroup?.trim() || null,
+    stopProcessing: data.stopProcessing,
+    startsAt: data.startsAt,
+    endsAt: data.endsAt,
+    // The schedule runner picks up rules by state, so it's set on every save.
+    scheduleState: getRuleScheduleState(data),
+  };
+}
+
+/**
+ * Position after the shop's last rule, for rules added to the end.
+ */
+export async function getNextRulePosition(
+  tx: Prisma.TransactionClient,
+  shopId: string,
+): Promise<number> {
+  const last = await tx.productRule.findFirst({
+    where: { shopId },
+    orderBy: { position: "desc" },
+    select: { position: true },
+  });
+
+  return (last?.position ?? -1) + 1;
+}
+
+/**
+ * Create a rule for a shop, after its existing rules, and start its version
+ * history.
  */
 export async function createRuleForShop(
   shopId: string,
-  data: Omit<ProductRule, "id" | "shopId" | "createdAt">,
+  data: ProductRuleData,
+  changedBy: string | null = null,
 ): Promise<ProductRule> {
-  const created = await prisma.productRule.create({
-    data: {
+  return prisma.$transaction(async (tx) => {
+    const created = await tx.productRule.create({
+      data: {
+        shopId,
+        ...toRuleData(data),
+        position: await getNextRulePosition(tx, shopId),
+      },
+    });
+
+    await recordRuleVersion(tx, {
       shopId,
-      field: data.field,
-      operator: data.operator,
-      value: data.value,
-      tag: data.tag,
-      enabled: data.enabled,
-    },
+      ruleId: created.id,
+      action: "created",
+      snapshot: data,
+      changedBy,
+    });
+
+    return toProductRule(created);
+  });
+}
+
+/**
+ * Replace the editable fields of a rule and record the change.
+ * Multi-tenant safe: constraint on both id and shopId.
+ * Returns null if the rule doesn't exist for this shop.
+ */
+export async function updateRuleForShop(
+  shopId: string,
+  ruleId: string,
+  data: ProductRuleData,
+  changedBy: string | null = null,
+): Promise<ProductRule | null> {
+  return prisma.$transaction(async (tx) => {
+    const existing = await tx.productRule.findFirst({
+      where: { id: ruleId, shopId },
+      select: { scheduleState: true, conditions: true },
+    });
+    if (!existing) return null;
+
+    // Matches recorded under the old conditions no longer say anything.
+    if (
+      JSON.stringify(parseRuleConditions(existing.conditions)) !==
+      JSON.stringify(parseRuleConditions(data.conditions))
+    ) {
+      await clearRuleMatches(tx, shopId, ruleId);
+    }
+
+    await tx.productRule.updateMany({
+      where: { id: ruleId, shopId },
+      data: {
+        ...toRuleData(data),
+        scheduleState: getPendingScheduleState(
+          data,
+          existing.scheduleState as RuleScheduleState | null,
+        ),
+      },
+    });
+
+    await recordRuleVersion(tx, {
+      shopId,
+      ruleId,
+      action: "updated",
+      snapshot: data,
+      changedBy,
+    });
+
+    const updated = await tx.productRule.findFirst({
+      where: { id: ruleId, shopId },
+    });
+    return updated ? toProductRule(updated) : null;
+  });
+}
+
+/**
+ * Delete a rule. Its history is kept (ending in a "deleted" version), so it
+ * can be restored later.
+ * Tags a sync-mode or scheduled rule added are removed from each product
+ * the next time its rules are applied (see getSyncedTagsToRemove); tags of
+ * other rules stay on the products and are no longer the app's.
+ * Multi-tenant safe: constraint on both id and shopId.
+ * Returns false if the rule doesn't exist for this shop.
+ */
+export async function deleteRuleForShop(
+  shopId: string,
+  ruleId: string,
+  changedBy: string | null = null,
+): Promise<boolean> {
+  return prisma.$transaction(async (tx) => {
+    const existing = await tx.productRule.findFirst({
+      where: { id: ruleId, shopId },
+    });
+    if (!existing) return false;
+
+    await tx.productRule.deleteMany({ where: { id: ruleId, shopId } });
+    await deleteRuleStats(tx, shopId, ruleId);
+    if (!removesOwnTags(toProductRule(existing))) {
+      await releaseRuleTags(tx, shopId, ruleId);
+    }
+    await recordRuleVersion(tx, {
+      shopId,
+      ruleId,
+      action: "deleted",
+      snapshot: toProductRule(existing),
+      changedBy,
+    });
+
+    return true;
   });
+}
+
+/**
+ * Roll a rule back to the state stored in an earlier version. Recreates the
+ * rule (with its original id, after the existing rules) if it was deleted.
+ * Multi-tenant safe: constraint on both id and shopId.
+ * Returns null if the version doesn't exist for this shop.
+ */
+export async function restoreRuleVersionForShop(
+  shopId: string,
+  ruleId: string,
+  version: number,
+  changedBy: string | null = null,
+): Promise<ProductRule | null> {
+  const target = await getRuleVersion(shopId, ruleId, version);
+  if (!target) return null;
+  const data: ProductRuleData = target.snapshot;
 
-  return created;
+  return prisma.$transaction(async (tx) => {
+    const restored = await tx.productRule.upsert({
+      where: { id: ruleId },
+      create: {
+        id: ruleId,
+        shopId,
+        ...toRuleData(data),
+        position: await getNextRulePosition(tx, shopId),
+      },
+      update: toRuleData(data),
+    });
+    // The upsert is keyed on id alone; throwing rolls back a write to a rule
+    // of another shop.
+    if (restored.shopId !== shopId) {
+      throw new Error(`Rule ${ruleId} does not belong to shop ${shopId}`);
+    }
+    // The restored conditions may differ from the current ones.
+    await clearRuleMatches(tx, shopId, ruleId);
+
+    await recordRuleVersion(tx, {
+      shopId,
+      ruleId,
+      action: "restored",
+      snapshot: data,
+      restoredFromVersion: version,
+      changedBy,
+    });
+
+    return toProductRule(restored);
+  });
 }
 
 /**
- * Toggle the enabled flag for a rule.
+ * Toggle the enabled flag for a rule and record the change.
  * Multi-tenant safe: constraint on both id and shopId.
  */
 export async function toggleRuleEnabled(
   shopId: string,
   ruleId: string,
   enabled: boolean,
+  changedBy: string | null = null,
 ): Promise<void> {
-  await prisma.productRule.updateMany({
-    where: { id: ruleId, shopId },
-    data: { enabled },
+  await prisma.$transaction(async (tx) => {
+    const { count } = await tx.productRule.updateMany({
+      where: { id: ruleId, shopId },
+      data: { enabled },
+    });
+    if (count === 0) return;
+
+    const updated = await tx.productRule.findFirst({
+      where: { id: ruleId, shopId },
+    });
+    if (!updated) return;
+
+    await recordRuleVersion(tx, {
+      shopId,
+      ruleId,
+      action: enabled ? "enabled" : "disabled",
+      snapshot: toProductRule(updated),
+      changedBy,
+    });
   });
 }
 
+/**
+ * Set the evaluation order of a shop's rules. `ruleIds` lists the rules
+ * in their new order; rules not listed keep their place after them.
+ * Ordering isn't recorded in the version history.
+ * Multi-tenant safe: only rules of this shop are updated.
+ */
+export async function reorderRulesForShop(
+  shopId: string,
+  ruleIds: string[],
+): Promise<void> {
+  await prisma.$transaction(async (tx) => {
+    const rules = await tx.productRule.findMany({
+      where: { shopId },
+      orderBy: [{ position: "asc" }, { createdAt: "asc" }],
+      select: { id: true },
+    });
+
+    const existing = new Set(rules.map((rule) => rule.id));
+    const listed = ruleIds.filter((id) => existing.has(id));
+    const ordered = [...new Set([...listed, ...rules.map((rule) => rule.id)])];
+
+    for (const [position, id] of ordered.entries()) {
+      await tx.productRule.updateMany({
+        where: { id, shopId },
+        data: { position },
+      });
+    }
+  });
+}
+
+export interface RuleEvaluation {
+  rule: ProductRule;
+  matched: boolean;
+  // Tag rendered from the rule's tag template; null if the rule didn't
+  // match or the template had nothing to fill in.
+  tag: string | null;
+  // Why the rule was skipped without being evaluated: it's outside its
+  // schedule, or an earlier rule won its exclusive group or stopped
+  // processing. `matched` is false then.
+  skipped?: string;
+}
+
+/**
+ * Evaluate every enabled rule against a product, in the given order.
+ * Rules outside their schedule at `now` don't match. Only the first
+ * matching rule of an exclusive group applies, and a matching rule with
+ * stopProcessing skips all rules after it.
+ * This is deterministic and idempotent: same input -> same output.
+ */
+export function evaluateRules(
+  product: ProductForEvaluation,
+  rules: ProductRule[],
+  now: Date = new Date(),
+): RuleEvaluation[] {
+  const groupWinners = new Map<string, ProductRule>();
+  let stoppedBy: ProductRule | null = null;
+
+  return rules
+    .filter((rule) => rule.enabled)
+    .map((rule) => {
+      const schedule = getRuleScheduleState(rule, now);
+      if (schedule === "scheduled" || schedule === "ended") {
+        return {
+          rule,
+          matched: false,
+          tag: null,
+          skipped:
+            schedule === "scheduled"
+              ? "The rule's schedule hasn't started yet."
+              : "The rule's schedule has ended.",
+        };
+      }
+
+      const group = rule.exclusiveGroup
+        ? normalizeText(rule.exclusiveGroup)
+        : null;
+      const winner = group ? groupWinners.get(group) : undefined;
+
+      if (stoppedBy || winner) {
+        return {
+          rule,
+          matched: false,
+          tag: null,
+          skipped: stoppedBy
+            ? `The "${stoppedBy.tag}" rule matched and stops further rules.`
+            : `The "${winner?.tag}" rule already matched exclusive group "${rule.exclusiveGroup}".`,
+        };
+      }
+
+      const matched = evaluateConditionGroup(product, rule.conditions);
+      if (matched) {
+        if (group) groupWinners.set(group, rule);
+        if (rule.stopProcessing) stoppedBy = rule;
+      }
+
+      return {
+        rule,
+        matched,
+        tag: matched
+          ? renderTagTemplate(rule.tag, getTemplateValues(product))
+          : null,
+      };
+    });
+}
+
 /**
  * Evaluate which tags should be applied for a given product.
  * This is deterministic and idempotent: same input -> same output.
@@ -78,61 +496,485 @@ export function evaluateProductRules(
   product: ProductForEvaluation,
   rules: ProductRule[],
 ): string[] {
-  const tags = new Set<string>();
+  return getMatchedTags(evaluateRules(product, rules));
+}
+
+export interface ConditionTrace {
+  type: "condition";
+  condition: RuleCondition;
+  // e.g. `min price > 50`
+  description: string;
+  // The product's value for the condition, as it was compared.
+  actual: string;
+  matched: boolean;
+}
+
+export interface ConditionGroupTrace {
+  type: "group";
+  combinator: ConditionCombinator;
+  matched: boolean;
+  children: Array<ConditionTrace | ConditionGroupTrace>;
+}
+
+export interface RuleExplanation extends RuleEvaluation {
+  trace: ConditionGroupTrace;
+  // The conditions that made the rule fail: the failing conditions of a
+  // failed AND group, and every condition of a failed OR group.
+  failedConditions: ConditionTrace[];
+}
+
+/**
+ * Evaluate every rule against a product and record why each one matched
+ * or not, condition by condition. Unlike evaluateRules, disabled rules are
+ * included so merchants can see what they would do; they don't take part
+ * in exclusive groups or stop processing.
+ */
+export function explainRules(
+  product: ProductForEvaluation,
+  rules: ProductRule[],
+): RuleExplanation[] {
+  const evaluations = new Map(
+    evaluateRules(product, rules).map((evaluation) => [
+      evaluation.rule.id,
+      evaluation,
+    ]),
+  );
+
+  return rules.map((rule) => {
+    const trace = traceConditionGroup(product, rule.conditions);
+    const evaluation = evaluations.get(rule.id);
+    const matched = evaluation ? evaluation.matched : trace.matched;
+
+    return {
+      rule,
+      matched,
+      tag: matched
+        ? renderTagTemplate(rule.tag, getTemplateValues(product))
+        : null,
+      ...(evaluation?.skipped ? { skipped: evaluation.skipped } : {}),
+      trace,
+      failedConditions: evaluation?.skipped ? [] : getFailedConditions(trace),
+    };
+  });
+}
+
+function traceConditionGroup(
+  product: ProductForEvaluation,
+  group: RuleConditionGroup,
+): ConditionGroupTrace {
+  const children = group.conditions.map((node) =>
+    node.type === "group"
+      ? traceConditionGroup(product, node)
+      : traceCondition(product, node),
+  );
+
+  return {
+    type: "group",
+    combinator: group.combinator,
+    matched: evaluateConditionGroup(product, group),
+    children,
+  };
+}
+
+function traceCondition(
+  product: ProductForEvaluation,
+  condition: RuleCondition,
+): ConditionTrace {
+  return {
+    type: "condition",
+    condition,
+    description: describeRuleCondition(condition),
+    actual: describeProductValue(product, condition),
+    matched: evaluateCondition(product, condition),
+  };
+}
+
+function getFailedConditions(
+  trace: ConditionTrace | ConditionGroupTrace,
+): ConditionTrace[] {
+  if (trace.matched) return [];
+  if (trace.type === "condition") return [trace];
+  return trace.children.flatMap(getFailedConditions);
+}
+
+/**
+ * The product's value for a condition, e.g. "19.99, 24.5" for a per-variant
+ * price or "(none)" if the product has no value.
+ */
+function describeProductValue(
+  product: ProductForEvaluation,
+  condition: RuleCondition,
+): string {
+  const none = "(none)";
+
+  switch (getRuleFieldType(condition.field)) {
+    case "number": {
+      const defaultMode = getDefaultVariantMode(condition.field);
+      if (!defaultMode) {
+        const value = getNumericValue(product, condition.field);
+        return value ? formatNumericValue(value) : none;
+      }
+
+      const values = getVariantValues(product, condition.field);
+      if (values.length === 0) return none;
+
+      const mode = condition.variantMode ?? defaultMode;
+      return mode === "any" || mode === "all"
+        ? values.map(formatDecimal).join(", ")
+        : formatNumericValue(aggregateValues(values, mode));
+    }
+    case "text":
+      return getTextValue(product, condition.field) || none;
+    case "list":
+      return getListValue(product, condition.field).join(", ") || none;
+    default:
+      return none;
+  }
+}
+
+function formatNumericValue(value: NumericValue): string {
+  return value.count === 1
+    ? formatDecimal(value.total)
+    : String(decimalToNumber(value.total) / value.count);
+}
+
+/**
+ * Tags of all matching rules, without duplicates.
+ */
+export function getMatchedTags(evaluations: RuleEvaluation[]): string[] {
+  const tags = new Map<string, string>();
+
+  for (const { tag } of evaluations) {
+    if (tag && !tags.has(normalizeTag(tag))) {
+      tags.set(normalizeTag(tag), tag);
+    }
+  }
+
+  return Array.from(tags.values());
+}
+
+/**
+ * Tags that sync-mode and scheduled rules should take off a product: the
+ * app added the tag for that rule, and no matching rule still wants it (the
+ * rule stopped matching, its schedule ended, its template now renders a
+ * different tag, or the rule was deleted).
+ * `rules` are all of the shop's rules: owned tags of a rule that isn't among
+ * them belong to a deleted sync-mode rule, as deleting any other rule
+ * releases its tags (see deleteRuleForShop).
+ */
+export function getSyncedTagsToRemove(
+  evaluations: RuleEvaluation[],
+  ownedTags: OwnedTag[],
+  rules: ProductRule[],
+): string[] {
+  const syncRuleIds = new Set(
+    evaluations
+      .filter(({ rule }) => removesOwnTags(rule))
+      .map(({ rule }) => rule.id),
+  );
+  const ruleIds = new Set(rules.map((rule) => rule.id));
+  const wanted = new Set(getMatchedTags(evaluations).map(normalizeTag));
+
+  return ownedTags
+    .filter(
+      ({ tag, ruleId }) =>
+        (syncRuleIds.has(ruleId) || !ruleIds.has(ruleId)) &&
+        !wanted.has(normalizeTag(tag)),
+    )
+    .map(({ tag }) => tag);
+}
 
-  for (const rule of rules) {
-    if (!rule.enabled) continue;
+function getTemplateValues(product: ProductForEvaluation): TagTemplateValues {
+  const values: TagTemplateValues = {};
 
-    if (evaluateSingleRule(product, rule)) {
-      tags.add(rule.tag);
+  for (const field of TAG_TEMPLATE_FIELDS) {
+    if (getRuleFieldType(field) === "number") {
+      const value = getNumericValue(product, field);
+      values[field] = value ? decimalToNumber(value.total) / value.count : null;
+    } else {
+      values[field] = getTextValue(product, field);
     }
   }
 
-  return Array.from(tags);
+  return values;
 }
 
-function evaluateSingleRule(
+function evaluateConditionGroup(
   product: ProductForEvaluation,
-  rule: ProductRule,
+  group: RuleConditionGroup,
 ): boolean {
-  switch (rule.field) {
-    case "price": {
-      if (product.price == null) return false;
-      const target = parseFloat(rule.value);
-      if (Number.isNaN(target)) return false;
-      return compareNumeric(product.price, target, rule.operator);
+  // An empty group never matches; validation prevents saving one.
+  if (group.conditions.length === 0) return false;
+
+  const matches = (node: RuleConditionNode) =>
+    node.type === "group"
+      ? evaluateConditionGroup(product, node)
+      : evaluateCondition(product, node);
+
+  return group.combinator === "and"
+    ? group.conditions.every(matches)
+    : group.conditions.some(matches);
+}
+
+function evaluateCondition(
+  product: ProductForEvaluation,
+  condition: RuleCondition,
+): boolean {
+  const matched = evaluateConditionValue(product, condition);
+  return condition.negate ? !matched : matched;
+}
+
+function evaluateConditionValue(
+  product: ProductForEvaluation,
+  condition: RuleCondition,
+): boolean {
+  switch (getRuleFieldType(condition.field)) {
+    case "number": {
+      const compare = (actual: NumericValue) =>
+        compareNumeric(actual, condition);
+
+      const defaultMode = getDefaultVariantMode(condition.field);
+      if (!defaultMode) {
+        const actual = getNumericValue(product, condition.field);
+        return actual != null && compare(actual);
+      }
+
+      const values = getVariantValues(product, condition.field);
+      if (values.length === 0) return false;
+
+      const mode = condition.variantMode ?? defaultMode;
+      switch (mode) {
+        case "any":
+          return values.some((value) => compare({ total: value, count: 1 }));
+        case "all":
+          return values.every((value) => compare({ total: value, count: 1 }));
+        default:
+          return compare(aggregateValues(values, mode));
+      }
     }
-    case "inventory": {
-      if (product.totalInventory == null) return false;
-      const target = parseInt(rule.value, 10);
-      if (Number.isNaN(target)) return false;
-      return compareNumeric(product.totalInventory, target, rule.operator);
+    case "text": {
+      const actual = getTextValue(product, condition.field);
+      if (!actual) return false;
+      return compareText(actual, condition);
     }
-    case "vendor": {
-      if (!product.vendor) return false;
-      if (rule.operator !== "eq") return false;
-      return (
-        product.vendor.trim().toLowerCase() ===
-        rule.value.trim().toLowerCase()
-      );
+    case "list": {
+      const values = getListValue(product, condition.field);
+      return values.some((value) => compareText(value, condition));
     }
     default:
       return false;
   }
 }
 
+// A numeric value kept exact: an average is held as a total and a count
+// instead of being divided, and compared as total <op> target * count.
+interface NumericValue {
+  total: Decimal;
+  count: number;
+}
+
+/**
+ * Single numeric value for a field. Variant fields are combined using the
+ * field's default mode (e.g. the lowest price).
+ */
+function getNumericValue(
+  product: ProductForEvaluation,
+  field: RuleField,
+): NumericValue | null {
+  if (field === "inventory") {
+    const total =
+      product.totalInventory != null
+        ? parseDecimal(product.totalInventory)
+        : null;
+    return total ? { total, count: 1 } : null;
+  }
+
+  // Fields compared per variant (any/all) have no single value.
+  const mode = getDefaultVariantMode(field);
+  if (!mode || mode === "any" || mode === "all") return null;
+
+  const values = getVariantValues(product, field);
+  return values.length > 0 ? aggregateValues(values, mode) : null;
+}
+
+function getVariantValues(
+  product: ProductForEvaluation,
+  field: RuleField,
+): Decimal[] {
+  const pick = (variant: VariantForEvaluation) => {
+    switch (field) {
+      case "price":
+        return variant.price;
+      case "compareAtPrice":
+        return variant.compareAtPrice;
+      case "variantInventory":
+        return variant.inventoryQuantity;
+      case "weight":
+        return variant.weight;
+      default:
+        return null;
+    }
+  };
+
+  return (product.variants ?? [])
+    .map((variant) => {
+      const value = pick(variant);
+      return value != null ? parseDecimal(value) : null;
+    })
+    .filter((value): value is Decimal => value != null);
+}
+
+function aggregateValues(
+  values: Decimal[],
+  mode: Exclude<VariantMode, "any" | "all">,
+): NumericValue {
+  switch (mode) {
+    case "min":
+      return {
+        total: values.reduce((min, value) =>
+          compareDecimals(value, min) < 0 ? value : min,
+        ),
+        count: 1,
+      };
+    case "max":
+      return {
+        total: values.reduce((max, value) =>
+          compareDecimals(value, max) > 0 ? value : max,
+        ),
+        count: 1,
+      };
+    case "avg":
+      return { total: values.reduce(addDecimals), count: values.length };
+  }
+}
+
+function getTextValue(
+  product: ProductForEvaluation,
+  field: RuleField,
+): string | null {
+  switch (field) {
+    case "title":
+      return product.title ?? null;
+    case "vendor":
+      return product.vendor ?? null;
+    case "productType":
+      return product.productType ?? null;
+    case "status":
+      return product.status ?? null;
+    case "handle":
+      return product.handle ?? null;
+    default:
+      return null;
+  }
+}
+
+function getListValue(
+  product: ProductForEvaluation,
+  field: RuleField,
+): string[] {
+  switch (field) {
+    case "tags":
+      return product.tags ?? [];
+    case "sku":
+      return (product.variants ?? [])
+        .map((variant) => variant.sku?.trim() ?? "")
+        .filter((sku) => sku.length > 0);
+    default:
+      return [];
+  }
+}
+
+function normalizeText(value: string): string {
+  return value.trim().toLowerCase();
+}
+
 function compareNumeric(
-  actual: number,
-  target: number,
-  operator: RuleOperator,
+  actual: NumericValue,
+  condition: RuleCondition,
 ): boolean {
-  switch (operator) {
+  // Sign of actual - target, or null if the target isn't a number.
+  const compareTo = (value: string) => {
+    const target = parseDecimal(value);
+    return target
+      ? compareDecimals(actual.total, multiplyDecimal(target, actual.count))
+      : null;
+  };
+
+  if (condition.operator === "between") {
+    const [min, max] = splitConditionValue(condition.value).map(compareTo);
+    if (min == null || max == null) return false;
+    return min >= 0 && max <= 0;
+  }
+
+  if (condition.operator === "in") {
+    return splitConditionValue(condition.value).some(
+      (value) => compareTo(value) === 0,
+    );
+  }
+
+  const result = compareTo(condition.value);
+  if (result == null) return false;
+
+  switch (condition.operator) {
+    case "eq":
+      return result === 0;
+    case "neq":
+      return result !== 0;
     case "gt":
-      return actual > target;
+      return result > 0;
+    case "gte":
+      return result >= 0;
     case "lt":
-      return actual < target;
+      return result < 0;
+    case "lte":
+      return result <= 0;
+    default:
+      return false;
+  }
+}
+
+// Compiled regexes by condition, so a pattern is compiled once per loaded
+// rule rather than for every variant and tag it is tested against. Null for
+// a pattern that doesn't compile.
+const compiledRegexes = new WeakMap<RuleCondition, RegExp | null>();
+
+function getConditionRegex(condition: RuleCondition): RegExp | null {
+  if (!compiledRegexes.has(condition)) {
+    let regex: RegExp | null;
+    try {
+      regex = new RegExp(condition.value);
+    } catch {
+      regex = null;
+    }
+    compiledRegexes.set(condition, regex);
+  }
+  return compiledRegexes.get(condition) ?? null;
+}
+
+function compareText(actual: string, condition: RuleCondition): boolean {
+  // Regexes are matched against the raw value and are case-sensitive.
+  if (condition.operator === "matches") {
+    return getConditionRegex(condition)?.test(actual) ?? false;
+  }
+
+  const value = normalizeText(actual);
+  const target = normalizeText(condition.value);
+
+  switch (condition.operator) {
     case "eq":
-      return actual === target;
+      return value === target;
+    case "neq":
+      return value !== target;
+    case "contains":
+      return value.includes(target);
+    case "startsWith":
+      return value.startsWith(target);
+    case "endsWith":
+      return value.endsWith(target);
+    case "in":
+      return splitConditionValue(condition.value)
+        .map(normalizeText)
+        .includes(value);
     default:
       return false;
   }
@@ -140,23 +982,30 @@ function compareNumeric(
 
 /**
  * Decide final tag list given existing + rule-based tags.
+ * Only tags passed in tagsToRemove are ever removed (see sync mode).
+ * Tags are compared case- and whitespace-insensitively, like Shopify does.
  * Returns null if there is no change required (idempotent).
  */
 export function mergeProductTags(
   existingTags: string[],
   ruleTags: string[],
+  tagsToRemove: string[] = [],
 ): string[] | null {
-  const set = new Set(existingTags);
+  const tags = new Map(existingTags.map((tag) => [normalizeTag(tag), tag]));
   let changed = false;
 
+  for (const tag of tagsToRemove) {
+    if (tags.delete(normalizeTag(tag))) {
+      changed = true;
+    }
+  }
+
   for (const tag of ruleTags) {
-    if (!set.has(tag)) {
-      set.add(tag);
+    if (!tags.has(normalizeTag(tag))) {
+      tags.set(normalizeTag(tag), tag);
       changed = true;
     }
   }
 
-  return changed ? Array.from(set) : null;
+  return changed ? Array.from(tags.values()) : null;
 }
-
-
@@ -0,0 +1,225 @@
+import type { Product } from "@prisma/client";
+import prisma from "../db.server";
+import type { StoredVariant } from "../webhooks/products.server";
+import type { ProductForEvaluation } from "./productRules.server";
+import type { ProductActionState } from "./ruleActions.server";
+import { normalizeTag } from "./tagTemplates";
+
+/**
+ * Stored product operations.
+ * Reads the catalog copy kept in the Product table, so rules can be
+ * evaluated without calling Shopify.
+ * All operations are scoped by shopId to ensure multi-tenant safety.
+ */
+
+export interface StoredProductForEvaluation {
+  shopifyProductId: bigint;
+  title: string | null;
+  existingTags: string[];
+  productForEvaluation: ProductForEvaluation;
+  actionState: ProductActionState;
+}
+
+/**
+ * A stored product's variants. Rows stored before variants were kept only
+ * have the first variant's price (minPrice); they are evaluated as a single
+ * variant with that price until the product is synced again.
+ */
+export function getProductVariants(product: Product): StoredVariant[] {
+  if (Array.isArray(product.variants) && product.variants.length > 0) {
+    return product.variants as unknown as StoredVariant[];
+  }
+  if (product.minPrice == null) return [];
+
+  return [
+    {
+      price: product.minPrice,
+      compareAtPrice: null,
+      sku: null,
+      inventoryQuantity: null,
+      weight: null,
+      inventoryItemId: null,
+    },
+  ];
+}
+
+/**
+ * Map a stored product row to the shape used for rule evaluation.
+ * Mirrors mapWebhookPayloadToProduct so both sources evaluate the same way.
+ */
+export function mapStoredProduct(product: Product): StoredProductForEvaluation {
+  const variants = getProductVariants(product);
+
+  const existingTags =
+    product.tags
+      ?.split(",")
+      .map((tag) => tag.trim())
+      .filter((tag) => tag.length > 0) ?? [];
+
+  return {
+    shopifyProductId: product.shopifyProductId,
+    title: product.title,
+    existingTags,
+    productForEvaluation: {
+      variants: variants.map((variant) => ({
+        price: variant.price,
+        compareAtPrice: variant.compareAtPrice,
+        sku: variant.sku,
+        inventoryQuantity: variant.inventoryQuantity,
+        weight: variant.weight,
+      })),
+      totalInventory: product.totalInventory,
+      title: product.title,
+      vendor: product.vendor,
+      productType: product.productType,
+      status: product.status,
+      handle: product.handle,
+      tags: existingTags,
+    },
+    actionState: {
+      productType: product.productType,
+      status: product.status,
+      templateSuffix: product.templateSuffix,
+    },
+  };
+}
+
+/**
+ * Load the next batch of stored products for a shop, ordered by id.
+ * Pass the id of the last product of the previous batch as `after` to
+ * continue; an empty result means there are no more products.
+ */
+export async function getProductBatchForShop(
+  shopId: string,
+  options: { after?: string | null; take: number },
+): Promise<Product[]> {
+  return prisma.product.findMany({
+    where: {
+      shopId,
+      ...(options.after ? { id: { gt: options.after } } : {}),
+    },
+    orderBy: { id: "asc" },
+    take: options.take,
+  });
+}
+
+/**
+ * A tag list as a comparable set: normalized, without duplicates, sorted.
+ */
+export function getTagSet(tags: string[]): string[] {
+  return [...new Set(tags.map(normalizeTag))].sort();
+}
+
+/**
+ * Remember the tags the app just wrote to a product, and store the fields
+ * its rule actions changed, so the products/update webhook Shopify sends for
+ * that write can be recognised as an echo (see saveOwnWriteEcho).
+ */
+export async function recordOwnWrite(
+  shopId: string,
+  shopifyProductId: bigint,
+  tags: string[],
+  fields: Partial<ProductActionState> = {},
+  now: Date = new Date(),
+): Promise<void> {
+  try {
+    await prisma.product.updateMany({
+      where: { shopId, shopifyProductId },
+      data: { ...fields, lastWrittenTags: getTagSet(tags), lastWrittenAt: now },
+    });
+  } catch (error) {
+    console.warn(
+      `Failed to record the write to product ${shopifyProductId}:`,
+      error,
+    );
+  }
+}
+
+export const DELETED_PRODUCT_RETENTION_DAYS = 30;
+
+/**
+ * Remove products that no longer exist in Shopify, with the data kept per
+ * product: tag ownership and current rule matches. Rule application log
+ * entries are kept until they expire, as an audit trail.
+ * The deletion is recorded, so an update delivered late doesn't recreate
+ * the product (see getProductDeletedAt).
+ * Returns the number of products removed.
+ */
+export async function deleteStoredProducts(
+  shopId: string,
+  shopifyProductIds: bigint[],
+  now: Date = new Date(),
+): Promise<number> {
+  if (shopifyProductIds.length === 0) return 0;
+
+  const where = { shopId, shopifyProductId: { in: shopifyProductIds } };
+  const [, , { count }] = await prisma.$transaction([
+    prisma.productTagOwnership.deleteMany({ where }),
+    prisma.productRuleMatch.deleteMany({ where }),
+    prisma.product.deleteMany({ where }),
+    prisma.deletedProduct.createMany({
+      data: shopifyProductIds.map((shopifyProductId) => ({
+        shopId,
+        shopifyProductId,
+        deletedAt: now,
+      })),
+      skipDuplicates: true,
+    }),
+  ]);
+
+  return count;
+}
+
+/**
+ * When a product was deleted, or null if it wasn't (recently).
+ */
+export async function getProductDeletedAt(
+  shopId: string,
+  shopifyProductId: bigint,
+): Promise<Date | null> {
+  const deleted = await prisma.deletedProduct.findUnique({
+    where: { shopId_shopifyProductId: { shopId, shopifyProductId } },
+    select: { deletedAt: true },
+  });
+
+  return deleted?.deletedAt ?? null;
+}
+
+/**
+ * Delete records of deleted products past the retention limit, for all
+ * shops. Returns the number of records deleted.
+ */
+export async function pruneDeletedProducts(
+  now: Date = new Date(),
+): Promise<number> {
+  const { count } = await prisma.deletedProduct.deleteMany({
+    where: {
+      deletedAt: {
+        lt: new Date(
+          now.getTime() - DELETED_PRODUCT_RETENTION_DAYS * 24 * 60 * 60 * 1000,
+        ),
+      },
+    },
+  });
+
+  return count;
+}
+
+/**
+ * Shopify ids of a shop's stored products, optionally only those first
+ * stored before a given time.
+ */
+export async function getStoredProductIds(
+  shopId: string,
+  createdBefore?: Date,
+): Promise<bigint[]> {
+  const products = await prisma.product.findMany({
+    where: {
+      shopId,
+      ...(createdBefore ? { createdAt: { lt: createdBefore } } : {}),
+    },
+    select: { shopifyProductId: true },
+  });
+
+  return products.map((product) => product.shopifyProductId);
+}
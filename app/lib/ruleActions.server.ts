@@ -0,0 +1,198 @@
+import type { AdminContext } from "../webhooks/products.server";
+import type { RuleEvaluation } from "./productRules.server";
+import type { MetafieldValueType, RuleAction } from "./ruleActions";
+
+/**
+ * Product fields that rule actions can change, as currently stored in Shopify.
+ */
+export interface ProductActionState {
+  productType: string | null;
+  status: string | null; // "active" | "draft" | "archived"
+  templateSuffix: string | null;
+}
+
+/**
+ * The part of a productUpdate ProductInput produced by rule actions.
+ */
+export interface RuleActionInput {
+  productType?: string;
+  status?: "DRAFT";
+  templateSuffix?: string | null;
+  metafields?: Array<{
+    namespace: string;
+    key: string;
+    type: MetafieldValueType;
+    value: string;
+  }>;
+  collectionsToJoin?: string[];
+}
+
+type MetafieldAction = Extract<RuleAction, { type: "setMetafield" }>;
+
+/**
+ * Work out which productUpdate fields the matched rules' actions need.
+ *
+ * Idempotency:
+ * - Only fields whose current value differs from the desired one are
+ *   returned, so an already-applied action never causes another write.
+ * - When several matching rules set the same field, the first rule wins.
+ */
+export async function planRuleActions(options: {
+  admin: AdminContext;
+  shopifyProductId: string;
+  current: ProductActionState;
+  evaluations: RuleEvaluation[];
+}): Promise<RuleActionInput> {
+  const { admin, shopifyProductId, current, evaluations } = options;
+
+  let productType: string | undefined;
+  let moveToDraft = false;
+  let templateSuffix: string | undefined;
+  const metafields = new Map<string, MetafieldAction>();
+  const collectionIds = new Set<string>();
+
+  for (const { rule, matched } of evaluations) {
+    if (!matched) continue;
+
+    for (const action of rule.actions) {
+      switch (action.type) {
+        case "setProductType":
+          productType ??= action.productType;
+          break;
+        case "moveToDraft":
+          moveToDraft = true;
+          break;
+        case "setTemplateSuffix":
+          templateSuffix ??= action.templateSuffix;
+          break;
+        case "setMetafield": {
+          const key = `${action.namespace}.${action.key}`;
+          if (!metafields.has(key)) metafields.set(key, action);
+          break;
+        }
+        case "addToCollection":
+          collectionIds.add(action.collectionId);
+          break;
+      }
+    }
+  }
+
+  const input: RuleActionInput = {};
+
+  if (
+    productType !== undefined &&
+    productType !== (current.productType ?? "")
+  ) {
+    input.productType = productType;
+  }
+
+  if (moveToDraft && current.status !== "draft") {
+    input.status = "DRAFT";
+  }
+
+  if (
+    templateSuffix !== undefined &&
+    templateSuffix !== (current.templateSuffix ?? "")
+  ) {
+    input.templateSuffix = templateSuffix || null;
+  }
+
+  if (metafields.size === 0 && collectionIds.size === 0) {
+    return input;
+  }
+
+  // Metafields and collection membership aren't part of the webhook payload,
+  // so look up their current state before deciding what to write.
+  const remote = await fetchRemoteActionState(
+    admin,
+    shopifyProductId,
+    Array.from(metafields.values()),
+    Array.from(collectionIds),
+  );
+
+  const changedMetafields = Array.from(metafields.values())
+    .filter((action, index) => remote.metafieldValues[index] !== action.value)
+    .map((action) => ({
+      namespace: action.namespace,
+      key: action.key,
+      type: action.valueType,
+      value: action.value,
+    }));
+  if (changedMetafields.length > 0) {
+    input.metafields = changedMetafields;
+  }
+
+  const collectionsToJoin = Array.from(collectionIds).filter(
+    (_, index) => !remote.inCollections[index],
+  );
+  if (collectionsToJoin.length > 0) {
+    input.collectionsToJoin = collectionsToJoin;
+  }
+
+  return input;
+}
+
+async function fetchRemoteActionState(
+  admin: AdminContext,
+  shopifyProductId: string,
+  metafields: MetafieldAction[],
+  collectionIds: string[],
+): Promise<{
+  metafieldValues: Array<string | null>;
+  inCollections: boolean[];
+}> {
+  const variableDefinitions = ["$id: ID!"];
+  const fields: string[] = [];
+  const variables: Record<string, string> = { id: shopifyProductId };
+
+  metafields.forEach((action, index) => {
+    variableDefinitions.push(
+      `$namespace${index}: String!`,
+      `$key${index}: String!`,
+    );
+    fields.push(
+      `metafield${index}: metafield(namespace: $namespace${index}, key: $key${index}) { value }`,
+    );
+    variables[`namespace${index}`] = action.namespace;
+    variables[`key${index}`] = action.key;
+  });
+
+  collectionIds.forEach((collectionId, index) => {
+    variableDefinitions.push(`$collection${index}: ID!`);
+    fields.push(`inCollection${index}: inCollection(id: $collection${index})`);
+    variables[`collection${index}`] = collectionId;
+  });
+
+  const query = `
+    query RuleActionState(${variableDefinitions.join(", ")}) {
+      product(id: $id) {
+        ${fields.join("\n        ")}
+      }
+    }
+  `;
+
+  const response = await admin.graphql(query, { variables });
+  const json = (await response.json()) as {
+    data?: { product?: Record<string, unknown> | null };
+    errors?: Array<{ message: string }>;
+  };
+  if (json.errors && json.errors.length > 0) {
+    throw new Error(
+      `GraphQL errors: ${json.errors.map((entry) => entry.message).join(", ")}`,
+    );
+  }
+  const product = json.data?.product ?? {};
+
+  return {
+    metafieldValues: metafields.map((_, index) => {
+      const metafield = product[`metafield${index}`] as
+        | { value: string }
+        | null
+        | undefined;
+      return metafield?.value ?? null;
+    }),
+    inCollections: collectionIds.map(
+      (_, index) => product[`inCollection${index}`] === true,
+    ),
+  };
+}
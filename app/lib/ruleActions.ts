@@ -0,0 +1,222 @@
+/**
+ * Extra actions a rule runs when it matches, on top of adding its tag.
+ * Shared between the server (execution) and the rules page (editing), so
+ * this module must stay free of server-only imports.
+ */
+
+export type MetafieldValueType =
+  | "single_line_text_field"
+  | "number_integer"
+  | "number_decimal"
+  | "boolean";
+
+export type RuleAction =
+  | {
+      type: "setMetafield";
+      namespace: string;
+      key: string;
+      valueType: MetafieldValueType;
+      value: string;
+    }
+  | { type: "setProductType"; productType: string }
+  | { type: "moveToDraft" }
+  | { type: "addToCollection"; collectionId: string }
+  | { type: "setTemplateSuffix"; templateSuffix: string };
+
+export type RuleActionType = RuleAction["type"];
+
+export const RULE_ACTION_TYPES: Array<{
+  value: RuleActionType;
+  label: string;
+}> = [
+  { value: "setMetafield", label: "Set metafield" },
+  { value: "setProductType", label: "Set product type" },
+  { value: "moveToDraft", label: "Move to draft" },
+  { value: "addToCollection", label: "Add to collection" },
+  { value: "setTemplateSuffix", label: "Set template suffix" },
+];
+
+export const METAFIELD_VALUE_TYPES: Array<{
+  value: MetafieldValueType;
+  label: string;
+}> = [
+  { value: "single_line_text_field", label: "Text" },
+  { value: "number_integer", label: "Integer" },
+  { value: "number_decimal", label: "Decimal" },
+  { value: "boolean", label: "True/false" },
+];
+
+const METAFIELD_IDENTIFIER = /^[a-zA-Z0-9_-]{2,64}$/;
+const COLLECTION_GID = /^gid:\/\/shopify\/Collection\/\d+$/;
+
+export function createRuleAction(type: RuleActionType): RuleAction {
+  switch (type) {
+    case "setMetafield":
+      return {
+        type,
+        namespace: "custom",
+        key: "",
+        valueType: "single_line_text_field",
+        value: "",
+      };
+    case "setProductType":
+      return { type, productType: "" };
+    case "moveToDraft":
+      return { type };
+    case "addToCollection":
+      return { type, collectionId: "" };
+    case "setTemplateSuffix":
+      return { type, templateSuffix: "" };
+  }
+}
+
+/**
+ * Accept either a numeric collection ID or a collection GID.
+ */
+export function normalizeCollectionId(value: string): string {
+  const trimmed = value.trim();
+  return /^\d+$/.test(trimmed)
+    ? `gid://shopify/Collection/${trimmed}`
+    : trimmed;
+}
+
+/**
+ * Parse a stored or submitted action list.
+ * Returns null if any entry does not have the expected shape.
+ */
+export function parseRuleActions(raw: unknown): RuleAction[] | null {
+  if (!Array.isArray(raw)) return null;
+
+  const actions: RuleAction[] = [];
+  for (const entry of raw) {
+    const action = parseRuleAction(entry);
+    if (!action) return null;
+    actions.push(action);
+  }
+
+  return actions;
+}
+
+function parseRuleAction(raw: unknown): RuleAction | null {
+  if (!raw || typeof raw !== "object") return null;
+  const action = raw as Record<string, unknown>;
+  const isString = (value: unknown): value is string =>
+    typeof value === "string";
+
+  switch (action.type) {
+    case "setMetafield":
+      if (
+        !isString(action.namespace) ||
+        !isString(action.key) ||
+        !isString(action.value) ||
+        !METAFIELD_VALUE_TYPES.some((entry) => entry.value === action.valueType)
+      ) {
+        return null;
+      }
+      return {
+        type: "setMetafield",
+        namespace: action.namespace,
+        key: action.key,
+        valueType: action.valueType as MetafieldValueType,
+        value: action.value,
+      };
+    case "setProductType":
+      return isString(action.productType)
+        ? { type: "setProductType", productType: action.productType }
+        : null;
+    case "moveToDraft":
+      return { type: "moveToDraft" };
+    case "addToCollection":
+      return isString(action.collectionId)
+        ? {
+            type: "addToCollection",
+            collectionId: normalizeCollectionId(action.collectionId),
+          }
+        : null;
+    case "setTemplateSuffix":
+      return isString(action.templateSuffix)
+        ? { type: "setTemplateSuffix", templateSuffix: action.templateSuffix }
+        : null;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Validate an action list before it is saved.
+ * Returns a user-facing error message, or null if the list is valid.
+ */
+export function validateRuleActions(actions: RuleAction[]): string | null {
+  for (const action of actions) {
+    const error = validateRuleAction(action);
+    if (error) return error;
+  }
+
+  return null;
+}
+
+function validateRuleAction(action: RuleAction): string | null {
+  switch (action.type) {
+    case "setMetafield":
+      if (
+        !METAFIELD_IDENTIFIER.test(action.namespace) ||
+        !METAFIELD_IDENTIFIER.test(action.key)
+      ) {
+        return "Metafield namespace and key must be 2-64 letters, numbers, dashes or underscores.";
+      }
+      if (action.value.trim().length === 0) {
+        return `Metafield ${action.namespace}.${action.key} needs a value.`;
+      }
+      if (
+        action.valueType === "number_integer" &&
+        !/^-?\d+$/.test(action.value.trim())
+      ) {
+        return `Metafield ${action.namespace}.${action.key} must be a whole number.`;
+      }
+      if (
+        action.valueType === "number_decimal" &&
+        !/^-?\d+(\.\d+)?$/.test(action.value.trim())
+      ) {
+        return `Metafield ${action.namespace}.${action.key} must be a decimal number.`;
+      }
+      if (
+        action.valueType === "boolean" &&
+        action.value !== "true" &&
+        action.value !== "false"
+      ) {
+        return `Metafield ${action.namespace}.${action.key} must be true or false.`;
+      }
+      return null;
+    case "setProductType":
+      return action.productType.trim().length === 0
+        ? "Product type can't be empty."
+        : null;
+    case "addToCollection":
+      return COLLECTION_GID.test(action.collectionId)
+        ? null
+        : "Collection must be a numeric ID or a gid://shopify/Collection/… ID.";
+    case "moveToDraft":
+    case "setTemplateSuffix":
+      return null;
+  }
+}
+
+/**
+ * Render an action as a short label for the rules table.
+ */
+export function describeRuleAction(action: RuleAction): string {
+  switch (action.type) {
+    case "setMetafield":
+      return `metafield ${action.namespace}.${action.key} = ${action.value}`;
+    case "setProductType":
+      return `product type = ${action.productType}`;
+    case "moveToDraft":
+      return "move to draft";
+    case "addToCollection":
+      return `add to collection ${action.collectionId}`;
+    case "setTemplateSuffix":
+      return action.templateSuffix
+        ? `template = ${action.templateSuffix}`
+        : "template = default";
+  }
+}
@@ -0,0 +1,158 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import type { ProductRule } from "./productRules.server";
+import { analyzeRules, type RuleFindingKind } from "./ruleAnalysis";
+import type { RuleCondition } from "./ruleConditions";
+
+function rule(
+  id: string,
+  conditions: Array<Omit<RuleCondition, "type">>,
+  overrides: Partial<ProductRule> = {},
+): ProductRule {
+  return {
+    id,
+    shopId: "shop",
+    conditions: {
+      type: "group",
+      combinator: "and",
+      conditions: conditions.map((condition) => ({
+        type: "condition",
+        ...condition,
+      })),
+    },
+    tag: "sale",
+    syncTag: false,
+    actions: [],
+    enabled: true,
+    position: 0,
+    exclusiveGroup: null,
+    stopProcessing: false,
+    startsAt: null,
+    endsAt: null,
+    createdAt: new Date(0),
+    updatedAt: new Date(0),
+    ...overrides,
+  };
+}
+
+function findingsOf(rules: ProductRule[], kind: RuleFindingKind): string[][] {
+  return analyzeRules(rules)
+    .filter((finding) => finding.kind === kind)
+    .map((finding) => finding.ruleIds);
+}
+
+describe("analyzeRules", () => {
+  it("reports identical rules once", () => {
+    const rules = [
+      rule("a", [{ field: "vendor", operator: "eq", value: "Nike" }]),
+      rule("b", [{ field: "vendor", operator: "eq", value: " nike " }]),
+      rule("c", [{ field: "vendor", operator: "eq", value: "Nike" }], {
+        tag: "other",
+      }),
+    ];
+    assert.deepEqual(findingsOf(rules, "duplicate"), [["a", "b"]]);
+    assert.deepEqual(findingsOf(rules, "shadowed"), []);
+  });
+
+  it("reports conditions that can't all be true", () => {
+    const rules = [
+      rule("a", [
+        { field: "price", operator: "gt", value: "50" },
+        { field: "price", operator: "lte", value: "50.00" },
+      ]),
+      rule("b", [
+        { field: "status", operator: "eq", value: "active" },
+        { field: "status", operator: "in", value: "draft,archived" },
+      ]),
+      // Any variant may match each condition, so this can match.
+      rule("c", [
+        { field: "price", operator: "gt", value: "50", variantMode: "any" },
+        { field: "price", operator: "lt", value: "10", variantMode: "any" },
+      ]),
+    ];
+    assert.deepEqual(findingsOf(rules, "contradiction"), [["a"], ["b"]]);
+  });
+
+  it("reports a rule shadowed by a broader rule adding the same tag", () => {
+    const rules = [
+      rule("narrow", [{ field: "price", operator: "gt", value: "100" }]),
+      rule("broad", [{ field: "price", operator: "gte", value: "50" }]),
+    ];
+    assert.deepEqual(findingsOf(rules, "shadowed"), [["narrow", "broad"]]);
+  });
+
+  it("doesn't report a shadowed rule that stops processing or claims an exclusive group", () => {
+    for (const overrides of [
+      { stopProcessing: true },
+      { exclusiveGroup: "band" },
+    ]) {
+      const rules = [
+        rule(
+          "narrow",
+          [{ field: "price", operator: "gt", value: "100" }],
+          overrides,
+        ),
+        rule("broad", [{ field: "price", operator: "gte", value: "50" }]),
+      ];
+      assert.deepEqual(findingsOf(rules, "shadowed"), []);
+    }
+  });
+
+  it("doesn't report shadowing by a rule that may lose its exclusive group", () => {
+    const rules = [
+      rule("narrow", [{ field: "price", operator: "gt", value: "100" }]),
+      rule("broad", [{ field: "price", operator: "gte", value: "50" }], {
+        exclusiveGroup: "band",
+      }),
+    ];
+    assert.deepEqual(findingsOf(rules, "shadowed"), []);
+  });
+
+  it("doesn't report shadowing by a rule an earlier rule may stop", () => {
+    const rules = [
+      rule("stop", [{ field: "vendor", operator: "eq", value: "Nike" }], {
+        tag: "nike",
+        stopProcessing: true,
+      }),
+      rule("narrow", [{ field: "price", operator: "gt", value: "100" }]),
+      rule("broad", [{ field: "price", operator: "gte", value: "50" }]),
+    ];
+    assert.deepEqual(findingsOf(rules, "shadowed"), []);
+  });
+
+  it("reports rules an earlier, broader rule keeps from applying", () => {
+    assert.deepEqual(
+      findingsOf(
+        [
+          rule("broad", [{ field: "price", operator: "gte", value: "50" }], {
+            tag: "premium",
+            stopProcessing: true,
+          }),
+          rule("narrow", [{ field: "price", operator: "gt", value: "100" }]),
+        ],
+        "unreachable",
+      ),
+      [["narrow", "broad"]],
+    );
+    assert.deepEqual(
+      findingsOf(
+        [
+          rule("broad", [{ field: "price", operator: "gte", value: "50" }], {
+            tag: "premium",
+            exclusiveGroup: "Band",
+          }),
+          rule("narrow", [{ field: "price", operator: "gt", value: "100" }], {
+            exclusiveGroup: "band ",
+          }),
+          rule("other", [{ field: "price", operator: "gt", value: "100" }], {
+            tag: "other",
+            exclusiveGroup: "size",
+          }),
+        ],
+        "unreachable",
+      ),
+      [["narrow", "broad"]],
+    );
+  });
+});
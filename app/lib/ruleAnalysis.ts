@@ -0,0 +1,545 @@
+import {
+  compareDecimals,
+  formatDecimal,
+  parseDecimal,
+  type Decimal,
+} from "./decimal";
+import type { ProductRule } from "./productRules.server";
+import {
+  describeRuleCondition,
+  describeRuleConditions,
+  getDefaultVariantMode,
+  getRuleFieldType,
+  splitConditionValue,
+  validateRuleConditions,
+  type RuleCondition,
+  type RuleConditionGroup,
+  type RuleConditionNode,
+  type RuleValidationOptions,
+} from "./ruleConditions";
+import { getRuleScheduleState } from "./ruleScheduleState";
+import { normalizeTag } from "./tagTemplates";
+
+/**
+ * Static analysis of a shop's rules.
+ * Finds rules that can never match or don't do anything other rules don't
+ * already do, without evaluating them against products.
+ * Works on rules already loaded and has no database imports, so it can be
+ * tested on its own.
+ */
+
+export type RuleFindingKind =
+  | "invalidValue"
+  | "contradiction"
+  | "duplicate"
+  | "shadowed"
+  | "unreachable"
+  | "sharedTag"
+  | "expired";
+
+export interface RuleFinding {
+  kind: RuleFindingKind;
+  ruleIds: string[];
+  message: string;
+}
+
+/**
+ * Check a shop's rules for problems:
+ * - values that don't validate (saved before validation, or by import),
+ * - conditions that contradict each other, so the rule never matches,
+ * - identical rules,
+ * - rules shadowed by a broader rule adding the same tag,
+ * - rules that never apply because an earlier, broader rule wins their
+ *   exclusive group or stops processing,
+ * - tags written by several different rules,
+ * - enabled rules whose schedule has ended.
+ */
+export function analyzeRules(
+  rules: ProductRule[],
+  options: RuleValidationOptions = {},
+): RuleFinding[] {
+  const findings: RuleFinding[] = [];
+
+  for (const rule of rules) {
+    const error = validateRuleConditions(rule.conditions, options);
+    if (error) {
+      findings.push({
+        kind: "invalidValue",
+        ruleIds: [rule.id],
+        message: `The ${describeRule(rule)} never matches: ${error}`,
+      });
+      continue;
+    }
+
+    const conflict = findContradiction(rule.conditions);
+    if (conflict) {
+      findings.push({
+        kind: "contradiction",
+        ruleIds: [rule.id],
+        message: `The ${describeRule(rule)} can never match: ${conflict
+          .map(describeRuleCondition)
+          .join(" and ")} can't all be true.`,
+      });
+    }
+  }
+
+  // Rules that add nothing beyond another rule; left out of the shared tag
+  // check so the same pair isn't reported twice.
+  const redundant = new Set<string>();
+
+  const byKey = new Map<string, ProductRule[]>();
+  for (const rule of rules) {
+    // Rules are only identical if they also do the same thing.
+    const key = [
+      normalizeTag(rule.tag),
+      getGroupKey(rule.conditions),
+      rule.startsAt?.getTime(),
+      rule.endsAt?.getTime(),
+      JSON.stringify(rule.actions),
+      rule.syncTag,
+      rule.exclusiveGroup?.trim().toLowerCase() ?? "",
+      rule.stopProcessing,
+    ].join("\n");
+    byKey.set(key, [...(byKey.get(key) ?? []), rule]);
+  }
+  for (const group of byKey.values()) {
+    if (group.length < 2) continue;
+    group.slice(1).forEach((rule) => redundant.add(rule.id));
+    findings.push({
+      kind: "duplicate",
+      ruleIds: group.map((rule) => rule.id),
+      message: `${group.length} rules are identical: the ${describeRule(group[0])}.`,
+    });
+  }
+
+  for (const rule of rules) {
+    if (!rule.enabled || getRuleScheduleState(rule) !== "ended") continue;
+    redundant.add(rule.id);
+    findings.push({
+      kind: "expired",
+      ruleIds: [rule.id],
+      message: `The ${describeRule(rule)} no longer applies: its schedule has ended.`,
+    });
+  }
+
+  // Rules are in evaluation order.
+  const enabled = rules.filter(
+    (rule) => rule.enabled && !redundant.has(rule.id),
+  );
+  for (const [index, rule] of enabled.entries()) {
+    const blocking = enabled
+      .slice(0, index)
+      .find(
+        (other) =>
+          !hasSchedule(other) &&
+          (other.stopProcessing || isSameGroup(rule, other)) &&
+          matchesSubsetOf(rule, other),
+      );
+    if (!blocking) continue;
+
+    redundant.add(rule.id);
+    findings.push({
+      kind: "unreachable",
+      ruleIds: [rule.id, blocking.id],
+      message: `The ${describeRule(rule)} never applies: the ${describeRule(blocking)} comes first, matches every product it does, and ${
+        blocking.stopProcessing
+          ? "stops further rules"
+          : `wins exclusive group "${blocking.exclusiveGroup}"`
+      }.`,
+    });
+  }
+
+  for (const rule of enabled) {
+    if (redundant.has(rule.id)) continue;
+    const shadowing = enabled.find(
+      (other, otherIndex) =>
+        other.id !== rule.id &&
+        !redundant.has(other.id) &&
+        // The other rule must always apply when it matches.
+        !other.exclusiveGroup &&
+        !hasSchedule(other) &&
+        !enabled
+          .slice(0, otherIndex)
+          .some((earlier) => earlier.stopProcessing) &&
+        isShadowedBy(rule, other),
+    );
+    if (!shadowing) continue;
+
+    redundant.add(rule.id);
+    findings.push({
+      kind: "shadowed",
+      ruleIds: [rule.id, shadowing.id],
+      message: `The ${describeRule(rule)} is shadowed by the ${describeRule(shadowing)}: every product it matches already gets the tag from that rule.`,
+    });
+  }
+
+  const byTag = new Map<string, ProductRule[]>();
+  for (const rule of enabled) {
+    if (redundant.has(rule.id)) continue;
+    const tag = normalizeTag(rule.tag);
+    byTag.set(tag, [...(byTag.get(tag) ?? []), rule]);
+  }
+  for (const group of byTag.values()) {
+    if (group.length < 2) continue;
+    const mixedModes = new Set(group.map((rule) => rule.syncTag)).size > 1;
+    findings.push({
+      kind: "sharedTag",
+      ruleIds: group.map((rule) => rule.id),
+      message:
+        `"${group[0].tag}" is added by ${group.length} rules.` +
+        (mixedModes
+          ? " Some use sync mode and some don't; sync mode only removes the tag if the rule that added it stops matching."
+          : ""),
+    });
+  }
+
+  return findings;
+}
+
+function hasSchedule(rule: ProductRule): boolean {
+  return rule.startsAt != null || rule.endsAt != null;
+}
+
+function describeRule(rule: ProductRule): string {
+  return `"${rule.tag}" rule (${describeRuleConditions(rule.conditions)})`;
+}
+
+// Canonical keys: two conditions or groups with the same key always match
+// the same products (values are normalized, group children sorted).
+
+function getConditionKey(condition: RuleCondition): string {
+  const normalize = (value: string) => {
+    if (getRuleFieldType(condition.field) === "number") {
+      const decimal = parseDecimal(value);
+      return decimal ? formatDecimal(decimal) : value.trim();
+    }
+    return condition.operator === "matches"
+      ? value
+      : value.trim().toLowerCase();
+  };
+
+  const value =
+    condition.operator === "in"
+      ? splitConditionValue(condition.value).map(normalize).sort().join(",")
+      : condition.operator === "between"
+        ? splitConditionValue(condition.value).map(normalize).join(",")
+        : normalize(condition.value);
+
+  return JSON.stringify([
+    condition.negate === true,
+    condition.field,
+    getVariantMode(condition),
+    condition.operator,
+    value,
+  ]);
+}
+
+function getNodeKey(node: RuleConditionNode): string {
+  return node.type === "group" ? getGroupKey(node) : getConditionKey(node);
+}
+
+function getGroupKey(group: RuleConditionGroup): string {
+  if (group.conditions.length === 1) return getNodeKey(group.conditions[0]);
+  return JSON.stringify([
+    group.combinator,
+    group.conditions.map(getNodeKey).sort(),
+  ]);
+}
+
+function getVariantMode(condition: RuleCondition) {
+  return condition.variantMode ?? getDefaultVariantMode(condition.field);
+}
+
+// Constraints a set of AND-ed conditions puts on one value: a numeric
+// range, and/or a set of allowed values (eq, in) minus excluded ones (neq).
+
+interface Bound {
+  value: Decimal;
+  inclusive: boolean;
+}
+
+interface Constraint {
+  min: Bound | null;
+  max: Bound | null;
+  allowed: string[] | null;
+  excluded: string[];
+  conditions: RuleCondition[];
+}
+
+/**
+ * Key of the value a condition constrains, or null if the analysis doesn't
+ * model it. Per-variant "any" conditions can hold for different variants,
+ * and list fields match if any entry matches, so neither can contradict.
+ */
+function getConstraintKey(condition: RuleCondition): string | null {
+  if (condition.negate) return null;
+
+  const type = getRuleFieldType(condition.field);
+  if (type === "list") return null;
+  if (type === "number" && getVariantMode(condition) === "any") return null;
+
+  return `${condition.field}:${getVariantMode(condition) ?? ""}`;
+}
+
+function applyCondition(
+  constraint: Constraint,
+  condition: RuleCondition,
+): Constraint {
+  const isNumber = getRuleFieldType(condition.field) === "number";
+  const normalize = (value: string) => {
+    if (!isNumber) return value.trim().toLowerCase();
+    const decimal = parseDecimal(value);
+    return decimal ? formatDecimal(decimal) : null;
+  };
+  const next = {
+    ...constraint,
+    conditions: [...constraint.conditions, condition],
+  };
+  const allow = (values: Array<string | null>) => {
+    const known = values.filter((value): value is string => value != null);
+    next.allowed = next.allowed
+      ? next.allowed.filter((value) => known.includes(value))
+      : known;
+  };
+  const bound = (value: string, inclusive: boolean) => {
+    const decimal = parseDecimal(value);
+    return decimal ? { value: decimal, inclusive } : null;
+  };
+
+  switch (condition.operator) {
+    case "eq":
+      allow([normalize(condition.value)]);
+      break;
+    case "in":
+      allow(splitConditionValue(condition.value).map(normalize));
+      break;
+    case "neq": {
+      const value = normalize(condition.value);
+      if (value != null) next.excluded = [...next.excluded, value];
+      break;
+    }
+    case "gt":
+    case "gte":
+      next.min = tighter(
+        next.min,
+        bound(condition.value, condition.operator === "gte"),
+        1,
+      );
+      break;
+    case "lt":
+    case "lte":
+      next.max = tighter(
+        next.max,
+        bound(condition.value, condition.operator === "lte"),
+        -1,
+      );
+      break;
+    case "between": {
+      const [min, max] = splitConditionValue(condition.value);
+      if (min != null && max != null) {
+        next.min = tighter(next.min, bound(min, true), 1);
+        next.max = tighter(next.max, bound(max, true), -1);
+      }
+      break;
+    }
+  }
+
+  return next;
+}
+
+// The stricter of two bounds: direction 1 keeps the larger lower bound,
+// -1 the smaller upper bound. Exclusive wins over inclusive at equal values.
+function tighter(
+  current: Bound | null,
+  bound: Bound | null,
+  direction: 1 | -1,
+): Bound | null {
+  if (!bound) return current;
+  if (!current) return bound;
+
+  const comparison = compareDecimals(bound.value, current.value) * direction;
+  if (comparison > 0) return bound;
+  if (comparison < 0) return current;
+  return current.inclusive ? bound : current;
+}
+
+function isWithin(constraint: Constraint, value: Decimal): boolean {
+  const { min, max } = constraint;
+  if (min) {
+    const comparison = compareDecimals(value, min.value);
+    if (comparison < 0 || (comparison === 0 && !min.inclusive)) return false;
+  }
+  if (max) {
+    const comparison = compareDecimals(value, max.value);
+    if (comparison > 0 || (comparison === 0 && !max.inclusive)) return false;
+  }
+  return true;
+}
+
+function isEmpty(constraint: Constraint): boolean {
+  const { min, max, allowed, excluded } = constraint;
+
+  if (min && max) {
+    const comparison = compareDecimals(min.value, max.value);
+    if (comparison > 0) return true;
+    if (comparison === 0 && (!min.inclusive || !max.inclusive)) return true;
+  }
+
+  if (!allowed) return false;
+  return !allowed.some((value) => {
+    if (excluded.includes(value)) return false;
+    const decimal = parseDecimal(value);
+    // Text values have no range to fall outside of.
+    return min || max ? decimal != null && isWithin(constraint, decimal) : true;
+  });
+}
+
+/**
+ * Conditions that can't all be true at once, or null if the group can
+ * match. An OR group only contradicts itself if every branch does.
+ */
+function findContradiction(group: RuleConditionGroup): RuleCondition[] | null {
+  if (group.combinator === "or") {
+    const conflicts: RuleCondition[] = [];
+    for (const node of group.conditions) {
+      if (node.type === "condition") return null;
+      const conflict = findContradiction(node);
+      if (!conflict) return null;
+      conflicts.push(...conflict);
+    }
+    return conflicts.length > 0 ? conflicts : null;
+  }
+
+  const constraints = new Map<string, Constraint>();
+  for (const node of group.conditions) {
+    if (node.type === "group") {
+      const conflict = findContradiction(node);
+      if (conflict) return conflict;
+      continue;
+    }
+
+    const key = getConstraintKey(node);
+    if (!key) continue;
+
+    const constraint = applyCondition(
+      constraints.get(key) ?? {
+        min: null,
+        max: null,
+        allowed: null,
+        excluded: [],
+        conditions: [],
+      },
+      node,
+    );
+    if (isEmpty(constraint)) return constraint.conditions;
+    constraints.set(key, constraint);
+  }
+
+  return null;
+}
+
+/**
+ * Whether every product matching `condition` also matches `other`: the
+ * same condition, or a numeric condition whose range lies within the other.
+ */
+function implies(condition: RuleCondition, other: RuleCondition): boolean {
+  if (getConditionKey(condition) === getConditionKey(other)) return true;
+
+  if (
+    condition.negate ||
+    other.negate ||
+    condition.field !== other.field ||
+    getRuleFieldType(condition.field) !== "number" ||
+    getVariantMode(condition) !== getVariantMode(other) ||
+    condition.operator === "in" ||
+    condition.operator === "neq" ||
+    other.operator === "in" ||
+    other.operator === "neq"
+  ) {
+    return false;
+  }
+
+  const empty: Constraint = {
+    min: null,
+    max: null,
+    allowed: null,
+    excluded: [],
+    conditions: [],
+  };
+  const inner = applyCondition(empty, condition);
+  const outer = applyCondition(empty, other);
+  const point = (constraint: Constraint) =>
+    constraint.allowed?.length === 1
+      ? parseDecimal(constraint.allowed[0])
+      : null;
+
+  // An eq condition is a single point; it's implied if the point is inside
+  // the other range.
+  const innerPoint = point(inner);
+  if (innerPoint) {
+    const outerPoint = point(outer);
+    return outerPoint
+      ? compareDecimals(innerPoint, outerPoint) === 0
+      : isWithin(outer, innerPoint);
+  }
+  if (outer.allowed) return false;
+
+  const within = (
+    bound: Bound | null,
+    limit: Bound | null,
+    direction: 1 | -1,
+  ) => !limit || (bound != null && tighter(limit, bound, direction) === bound);
+
+  return within(inner.min, outer.min, 1) && within(inner.max, outer.max, -1);
+}
+
+// Top-level conditions that must all hold for a rule to match.
+function getRequiredNodes(group: RuleConditionGroup): RuleConditionNode[] {
+  return group.combinator === "and" || group.conditions.length === 1
+    ? group.conditions
+    : [group];
+}
+
+function isSameGroup(rule: ProductRule, other: ProductRule): boolean {
+  return (
+    rule.exclusiveGroup != null &&
+    other.exclusiveGroup != null &&
+    rule.exclusiveGroup.trim().toLowerCase() ===
+      other.exclusiveGroup.trim().toLowerCase()
+  );
+}
+
+/**
+ * Whether every product the rule matches also matches the other rule: each
+ * of the other rule's conditions is implied by one of the rule's.
+ */
+function matchesSubsetOf(rule: ProductRule, other: ProductRule): boolean {
+  const required = getRequiredNodes(rule.conditions);
+  return getRequiredNodes(other.conditions).every((otherNode) =>
+    required.some((node) =>
+      node.type === "condition" && otherNode.type === "condition"
+        ? implies(node, otherNode)
+        : getNodeKey(node) === getNodeKey(otherNode),
+    ),
+  );
+}
+
+/**
+ * A rule is shadowed by another if both add the same tag, the other has no
+ * actions the rule lacks, and every product the rule matches also matches
+ * the other rule. Rules that claim an exclusive group or stop processing
+ * do more than add their tag, so they are never shadowed.
+ */
+function isShadowedBy(rule: ProductRule, other: ProductRule): boolean {
+  if (rule.exclusiveGroup || rule.stopProcessing) return false;
+  if (normalizeTag(rule.tag) !== normalizeTag(other.tag)) return false;
+
+  const otherActions = new Set(
+    other.actions.map((entry) => JSON.stringify(entry)),
+  );
+  if (rule.actions.some((entry) => !otherActions.has(JSON.stringify(entry)))) {
+    return false;
+  }
+
+  return matchesSubsetOf(rule, other);
+}
@@ -0,0 +1,257 @@
+import type { AdminContext } from "../webhooks/products.server";
+import {
+  evaluateRules,
+  getMatchedTags,
+  getSyncedTagsToRemove,
+  mergeProductTags,
+  type ProductForEvaluation,
+  type ProductRule,
+} from "./productRules.server";
+import { recordOwnWrite } from "./products.server";
+import { planRuleActions, type ProductActionState } from "./ruleActions.server";
+import {
+  recordRuleApplication,
+  type RuleApplicationSource,
+} from "./ruleApplicationLog.server";
+import { recordRuleMatches, recordTagsAdded } from "./ruleStats.server";
+import { normalizeTag } from "./tagTemplates";
+import {
+  getOwnedTags,
+  recordOwnedTags,
+  releaseOwnedTags,
+} from "./tagOwnership.server";
+
+export type RuleApplicationResult = "changed" | "unchanged" | "failed";
+
+const USER_ERRORS = "userErrors { field message }";
+const TAGGED_NODE = "node { ... on Product { tags } }";
+
+/**
+ * Evaluate a shop's rules against one product and write the resulting tag
+ * and action changes to Shopify. Used by product webhooks and by runs over
+ * the whole catalog. Every call is recorded in the rule application log and
+ * the per-rule statistics.
+ *
+ * Idempotency:
+ * - We only write to the product when a tag or a field targeted by a rule
+ *   action actually changes.
+ * - Existing tags are preserved: tags are written with tagsAdd and
+ *   tagsRemove, never as a full list. The only tags ever removed are ones
+ *   this app added for a sync-mode rule that no longer matches.
+ * - The tags we write are recorded, so the products/update webhook for our
+ *   own write is recognised and not evaluated again.
+ */
+export async function applyRulesToProduct(options: {
+  shopId: string;
+  admin: AdminContext;
+  rules: ProductRule[];
+  productId: bigint; // Shopify's numeric product ID
+  productForEvaluation: ProductForEvaluation;
+  existingTags: string[];
+  current: ProductActionState;
+  source: RuleApplicationSource;
+}): Promise<RuleApplicationResult> {
+  const {
+    shopId,
+    admin,
+    rules,
+    productId,
+    productForEvaluation,
+    existingTags,
+    current,
+    source,
+  } = options;
+
+  const shopifyProductId = `gid://shopify/Product/${productId}`;
+  const evaluations = evaluateRules(productForEvaluation, rules);
+  const ruleTags = getMatchedTags(evaluations);
+  await recordRuleMatches(shopId, productId, evaluations);
+
+  // Always loaded: tags of deleted sync-mode rules are removed too.
+  const ownedTags = await getOwnedTags(shopId, productId);
+  const tagsToRemove = getSyncedTagsToRemove(evaluations, ownedTags, rules);
+
+  const existingTagKeys = new Set(existingTags.map(normalizeTag));
+
+  // An owned tag the merchant removed by hand is no longer ours: if they add
+  // it back later, sync mode must leave it alone.
+  await releaseOwnedTags(
+    shopId,
+    productId,
+    ownedTags
+      .map((owned) => owned.tag)
+      .filter((tag) => !existingTagKeys.has(normalizeTag(tag))),
+  );
+
+  const mergedTags = mergeProductTags(existingTags, ruleTags, tagsToRemove);
+
+  const actionInput = await planRuleActions({
+    admin,
+    shopifyProductId,
+    current,
+    evaluations,
+  });
+
+  // Tags are added and removed individually rather than replaced: the tags
+  // we evaluated against may be an outdated copy, and a full tag list would
+  // drop any tag the merchant added since.
+  const mergedTagKeys = new Set((mergedTags ?? existingTags).map(normalizeTag));
+  const tagsAdded = (mergedTags ?? []).filter(
+    (tag) => !existingTagKeys.has(normalizeTag(tag)),
+  );
+  const tagsRemoved = existingTags.filter(
+    (tag) => !mergedTagKeys.has(normalizeTag(tag)),
+  );
+  const updatesProduct = Object.keys(actionInput).length > 0;
+  const changesTags = tagsAdded.length > 0 || tagsRemoved.length > 0;
+
+  const log = {
+    shopifyProductId: productId,
+    productTitle: productForEvaluation.title ?? null,
+    source,
+    matchedRules: evaluations.flatMap(({ rule, tag }) =>
+      tag ? [{ ruleId: rule.id, tag }] : [],
+    ),
+    tagsBefore: existingTags,
+    tagsAfter: mergedTags ?? existingTags,
+  };
+
+  if (!changesTags && !updatesProduct) {
+    // No changes required; avoid an unnecessary write.
+    await recordRuleApplication(shopId, {
+      ...log,
+      mutated: false,
+      result: "unchanged",
+    });
+    return "unchanged";
+  }
+
+  // Only the mutations needed are sent; they run in the order listed.
+  const variableDefinitions = [
+    ...(updatesProduct ? ["$input: ProductInput!"] : []),
+    ...(changesTags ? ["$id: ID!"] : []),
+    ...(tagsAdded.length > 0 ? ["$tagsAdded: [String!]!"] : []),
+    ...(tagsRemoved.length > 0 ? ["$tagsRemoved: [String!]!"] : []),
+  ];
+  const fields = [
+    ...(updatesProduct
+      ? [`productUpdate(input: $input) { product { id tags } ${USER_ERRORS} }`]
+      : []),
+    ...(tagsAdded.length > 0
+      ? [`tagsAdd(id: $id, tags: $tagsAdded) { ${TAGGED_NODE} ${USER_ERRORS} }`]
+      : []),
+    ...(tagsRemoved.length > 0
+      ? [
+          `tagsRemove(id: $id, tags: $tagsRemoved) { ${TAGGED_NODE} ${USER_ERRORS} }`,
+        ]
+      : []),
+  ];
+  const mutation = `
+    mutation AutoTagProduct(${variableDefinitions.join(", ")}) {
+      ${fields.join("\n      ")}
+    }
+  `;
+
+  type MutationResult = {
+    product?: { tags?: string[] } | null;
+    node?: { tags?: string[] } | null;
+    userErrors?: Array<{ field?: string[]; message: string }>;
+  };
+
+  let userErrors: Array<{ field?: string[]; message: string }>;
+  let tagsAfter: string[] | null;
+  try {
+    const response = await admin.graphql(mutation, {
+      variables: {
+        ...(changesTags ? { id: shopifyProductId } : {}),
+        ...(updatesProduct
+          ? { input: { id: shopifyProductId, ...actionInput } }
+          : {}),
+        ...(tagsAdded.length > 0 ? { tagsAdded } : {}),
+        ...(tagsRemoved.length > 0 ? { tagsRemoved } : {}),
+      },
+    });
+
+    const json = (await response.json()) as {
+      data?: {
+        productUpdate?: MutationResult;
+        tagsAdd?: MutationResult;
+        tagsRemove?: MutationResult;
+      };
+      errors?: Array<{ message: string }>;
+    };
+    // A throttled or rejected request still comes back as HTTP 200, with
+    // top-level errors and nothing written. Throwing records the failure and
+    // lets the caller retry.
+    if (json.errors && json.errors.length > 0) {
+      throw new Error(
+        `GraphQL errors: ${json.errors.map((entry) => entry.message).join(", ")}`,
+      );
+    }
+    const results = [
+      json.data?.productUpdate,
+      json.data?.tagsAdd,
+      json.data?.tagsRemove,
+    ];
+    userErrors = results.flatMap((result) => result?.userErrors ?? []);
+    // Mutations run in order, so the last one returns the live tag list.
+    tagsAfter =
+      results
+        .map((result) => result?.node?.tags ?? result?.product?.tags)
+        .filter((tags): tags is string[] => Array.isArray(tags))
+        .pop() ?? null;
+  } catch (error) {
+    await recordRuleApplication(shopId, {
+      ...log,
+      mutated: true,
+      result: "failed",
+      error: error instanceof Error ? error.message : String(error),
+    });
+    throw error;
+  }
+
+  if (userErrors.length > 0) {
+    console.error("AutoTagProduct userErrors", userErrors);
+    await recordRuleApplication(shopId, {
+      ...log,
+      mutated: true,
+      result: "failed",
+      error: userErrors.map((entry) => entry.message).join("; "),
+    });
+    return "failed";
+  }
+
+  // Remember which tags we added so sync-mode rules can take them off later.
+  const addedTags = evaluations.flatMap(({ rule, tag }) =>
+    tag && !existingTagKeys.has(normalizeTag(tag))
+      ? [{ tag, ruleId: rule.id }]
+      : [],
+  );
+
+  await recordOwnWrite(
+    shopId,
+    productId,
+    tagsAfter ?? mergedTags ?? existingTags,
+    {
+      ...(actionInput.productType !== undefined
+        ? { productType: actionInput.productType }
+        : {}),
+      ...(actionInput.status
+        ? { status: actionInput.status.toLowerCase() }
+        : {}),
+      ...(actionInput.templateSuffix !== undefined
+        ? { templateSuffix: actionInput.templateSuffix }
+        : {}),
+    },
+  );
+  await recordOwnedTags(shopId, productId, addedTags);
+  await recordTagsAdded(shopId, addedTags);
+  await releaseOwnedTags(shopId, productId, tagsToRemove);
+
+  await recordRuleApplication(shopId, {
+    ...log,
+    mutated: true,
+    result: "changed",
+  });
+  return "changed";
+}
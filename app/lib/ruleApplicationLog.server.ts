@@ -0,0 +1,150 @@
+import type { Prisma } from "@prisma/client";
+import prisma from "../db.server";
+import type { RuleApplicationResult } from "./ruleApplication.server";
+
+/**
+ * Rule application audit log.
+ * Records every time the rules are applied to a product: which rules
+ * matched, the tags before and after, and whether Shopify was updated, so
+ * merchants can see which rule tagged which product.
+ * Entries are kept for RULE_APPLICATION_LOG_RETENTION_DAYS.
+ * All operations are scoped by shopId to ensure multi-tenant safety.
+ */
+
+export type RuleApplicationSource = "webhook" | "run" | "inventory";
+
+export const RULE_APPLICATION_LOG_RETENTION_DAYS = 30;
+const LOG_PAGE_SIZE = 50;
+
+export interface MatchedRule {
+  ruleId: string;
+  tag: string;
+}
+
+export interface RuleApplicationLogData {
+  shopifyProductId: bigint;
+  productTitle: string | null;
+  source: RuleApplicationSource;
+  matchedRules: MatchedRule[];
+  tagsBefore: string[];
+  tagsAfter: string[];
+  mutated: boolean;
+  result: RuleApplicationResult;
+  error?: string | null;
+}
+
+export interface RuleApplicationLogEntry extends RuleApplicationLogData {
+  id: string;
+  createdAt: Date;
+}
+
+export interface RuleApplicationLogPage {
+  entries: RuleApplicationLogEntry[];
+  hasNextPage: boolean;
+}
+
+function getRetentionCutoff(now: Date): Date {
+  return new Date(
+    now.getTime() - RULE_APPLICATION_LOG_RETENTION_DAYS * 24 * 60 * 60 * 1000,
+  );
+}
+
+/**
+ * Record one application of the rules to a product, and drop the product's
+ * entries that are past the retention limit.
+ * Failures are logged, not thrown: the audit trail must never stop tags
+ * from being applied.
+ */
+export async function recordRuleApplication(
+  shopId: string,
+  data: RuleApplicationLogData,
+): Promise<void> {
+  try {
+    await prisma.ruleApplicationLog.create({
+      data: {
+        shopId,
+        shopifyProductId: data.shopifyProductId,
+        productTitle: data.productTitle,
+        source: data.source,
+        matchedRules: data.matchedRules as unknown as Prisma.InputJsonValue,
+        matchedRuleIds: data.matchedRules.map(({ ruleId }) => ruleId),
+        tagsBefore: data.tagsBefore,
+        tagsAfter: data.tagsAfter,
+        mutated: data.mutated,
+        result: data.result,
+        error: data.error ?? null,
+      },
+    });
+
+    await prisma.ruleApplicationLog.deleteMany({
+      where: {
+        shopId,
+        shopifyProductId: data.shopifyProductId,
+        createdAt: { lt: getRetentionCutoff(new Date()) },
+      },
+    });
+  } catch (error) {
+    console.warn(
+      `Failed to record rule application for product ${data.shopifyProductId}:`,
+      error,
+    );
+  }
+}
+
+/**
+ * Delete entries past the retention limit, for all shops. Products that aren't
+ * evaluated again would otherwise keep their old entries forever.
+ * Returns the number of entries deleted.
+ */
+export async function pruneRuleApplicationLogs(
+  now: Date = new Date(),
+): Promise<number> {
+  const { count } = await prisma.ruleApplicationLog.deleteMany({
+    where: { createdAt: { lt: getRetentionCutoff(now) } },
+  });
+
+  return count;
+}
+
+/**
+ * One page of a shop's log, newest first, optionally limited to a product
+ * or to the entries where a rule matched.
+ */
+export async function getRuleApplicationLogs(
+  shopId: string,
+  filter: { shopifyProductId?: bigint | null; ruleId?: string | null },
+  page: number,
+): Promise<RuleApplicationLogPage> {
+  const records = await prisma.ruleApplicationLog.findMany({
+    where: {
+      shopId,
+      ...(filter.shopifyProductId != null
+        ? { shopifyProductId: filter.shopifyProductId }
+        : {}),
+      ...(filter.ruleId ? { matchedRuleIds: { has: filter.ruleId } } : {}),
+    },
+    orderBy: { createdAt: "desc" },
+    skip: (page - 1) * LOG_PAGE_SIZE,
+    // One extra row tells us whether there is a next page.
+    take: LOG_PAGE_SIZE + 1,
+  });
+
+  return {
+    entries: records.slice(0, LOG_PAGE_SIZE).map((record) => ({
+      id: record.id,
+      shopifyProductId: record.shopifyProductId,
+      productTitle: record.productTitle,
+      source: record.source as RuleApplicationSource,
+      matchedRules: Array.isArray(record.matchedRules)
+        ? (record.matchedRules as unknown as MatchedRule[])
+        : [],
+      tagsBefore: record.tagsBefore,
+      tagsAfter: record.tagsAfter,
+      mutated: record.mutated,
+      result: record.result as RuleApplicationResult,
+      error: record.error,
+      createdAt: record.createdAt,
+    })),
+    hasNextPage: records.length > LOG_PAGE_SIZE,
+  };
+}
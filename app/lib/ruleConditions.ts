@@ -0,0 +1,418 @@
+/**
+ * Condition trees for product rules.
+ * Shared between the server (evaluation) and the rules page (editing), so
+ * this module must stay free of server-only imports.
+ */
+
+import {
+  compareDecimals,
+  getCurrencyDecimalPlaces,
+  getDecimalPlaces,
+  parseDecimal,
+  type Decimal,
+} from "./decimal";
+
+export type RuleField =
+  | "price"
+  | "compareAtPrice"
+  | "inventory"
+  | "variantInventory"
+  | "weight"
+  | "title"
+  | "vendor"
+  | "productType"
+  | "status"
+  | "handle"
+  | "tags"
+  | "sku";
+
+// How a field's value is compared: numbers, a single string, or a list of
+// strings (tags and SKUs) where a condition matches if any entry matches.
+export type RuleFieldType = "number" | "text" | "list";
+
+// How per-variant values are combined before comparing: a condition can hold
+// for any or all variants, or compare the lowest, highest or average value.
+export type VariantMode = "any" | "all" | "min" | "max" | "avg";
+
+export type RuleOperator =
+  | "eq"
+  | "neq"
+  | "gt"
+  | "gte"
+  | "lt"
+  | "lte"
+  | "between"
+  | "in"
+  | "contains"
+  | "startsWith"
+  | "endsWith"
+  | "matches";
+
+export type ConditionCombinator = "and" | "or";
+
+export interface RuleCondition {
+  type: "condition";
+  field: RuleField;
+  operator: RuleOperator;
+  // Single value, "min,max" for between, or a comma-separated list for in.
+  value: string;
+  // Inverts the result, e.g. NOT (tags contains "clearance").
+  negate?: boolean;
+  // Only for variant fields; falls back to the field's default mode.
+  variantMode?: VariantMode;
+}
+
+export interface RuleConditionGroup {
+  type: "group";
+  combinator: ConditionCombinator;
+  conditions: RuleConditionNode[];
+}
+
+export type RuleConditionNode = RuleCondition | RuleConditionGroup;
+
+// Groups can be nested, but deep trees are hard to read in the admin UI.
+export const MAX_CONDITION_DEPTH = 3;
+
+// Regexes run against every product on every webhook, so patterns are kept
+// short and quantified groups that themselves repeat, like (a+)+, are
+// rejected: they can backtrack catastrophically.
+export const MAX_REGEX_LENGTH = 100;
+const NESTED_QUANTIFIER = /\((?:[^()\\]|\\.)*[+*}](?:[^()\\]|\\.)*\)[+*{]/;
+
+// Variant fields have one value per variant; `defaultVariantMode` says how
+// they are combined when a condition doesn't pick a mode. Prices default to
+// the lowest variant, matching the "from" price shown on the storefront.
+export const RULE_FIELDS: Array<{
+  value: RuleField;
+  label: string;
+  type: RuleFieldType;
+  defaultVariantMode?: VariantMode;
+}> = [
+  { value: "price", label: "Price", type: "number", defaultVariantMode: "min" },
+  {
+    value: "compareAtPrice",
+    label: "Compare-at price",
+    type: "number",
+    defaultVariantMode: "min",
+  },
+  { value: "inventory", label: "Total inventory", type: "number" },
+  {
+    value: "variantInventory",
+    label: "Variant inventory",
+    type: "number",
+    defaultVariantMode: "any",
+  },
+  {
+    value: "weight",
+    label: "Weight (grams)",
+    type: "number",
+    defaultVariantMode: "min",
+  },
+  { value: "title", label: "Title", type: "text" },
+  { value: "vendor", label: "Vendor", type: "text" },
+  { value: "productType", label: "Product type", type: "text" },
+  { value: "status", label: "Status", type: "text" },
+  { value: "handle", label: "Handle", type: "text" },
+  { value: "tags", label: "Tags", type: "list" },
+  { value: "sku", label: "SKU", type: "list" },
+];
+
+export function getRuleFieldType(field: RuleField): RuleFieldType {
+  return RULE_FIELDS.find((entry) => entry.value === field)?.type ?? "text";
+}
+
+export const VARIANT_MODES: Array<{ value: VariantMode; label: string }> = [
+  { value: "any", label: "Any variant" },
+  { value: "all", label: "All variants" },
+  { value: "min", label: "Lowest" },
+  { value: "max", label: "Highest" },
+  { value: "avg", label: "Average" },
+];
+
+/**
+ * Default variant mode for a variant field, or null for product-level fields.
+ */
+export function getDefaultVariantMode(field: RuleField): VariantMode | null {
+  return (
+    RULE_FIELDS.find((entry) => entry.value === field)?.defaultVariantMode ??
+    null
+  );
+}
+
+// Which operators make sense for each field type. Text comparisons are
+// case-insensitive except `matches`, which is a case-sensitive regex.
+// List fields match when any entry satisfies the operator.
+export const RULE_OPERATORS: Array<{
+  value: RuleOperator;
+  label: string;
+  types: RuleFieldType[];
+}> = [
+  { value: "eq", label: "=", types: ["number", "text", "list"] },
+  { value: "neq", label: "!=", types: ["number", "text"] },
+  { value: "gt", label: ">", types: ["number"] },
+  { value: "gte", label: ">=", types: ["number"] },
+  { value: "lt", label: "<", types: ["number"] },
+  { value: "lte", label: "<=", types: ["number"] },
+  { value: "between", label: "between", types: ["number"] },
+  { value: "in", label: "in", types: ["number", "text", "list"] },
+  { value: "contains", label: "contains", types: ["text", "list"] },
+  { value: "startsWith", label: "starts with", types: ["text", "list"] },
+  { value: "endsWith", label: "ends with", types: ["text", "list"] },
+  { value: "matches", label: "matches regex", types: ["text", "list"] },
+];
+
+export function getOperatorsForField(field: RuleField): RuleOperator[] {
+  const type = getRuleFieldType(field);
+  return RULE_OPERATORS.filter((entry) => entry.types.includes(type)).map(
+    (entry) => entry.value,
+  );
+}
+
+function getOperatorLabel(operator: RuleOperator): string {
+  return (
+    RULE_OPERATORS.find((entry) => entry.value === operator)?.label ?? operator
+  );
+}
+
+/**
+ * Split a comma-separated condition value ("in" lists, "between" bounds).
+ */
+export function splitConditionValue(value: string): string[] {
+  return value
+    .split(",")
+    .map((part) => part.trim())
+    .filter((part) => part.length > 0);
+}
+
+/**
+ * Parse a stored or submitted condition tree.
+ * Returns null if the value does not have the expected shape.
+ */
+export function parseRuleConditions(raw: unknown): RuleConditionGroup | null {
+  const node = parseConditionNode(raw);
+  return node?.type === "group" ? node : null;
+}
+
+function parseConditionNode(raw: unknown): RuleConditionNode | null {
+  if (!raw || typeof raw !== "object") return null;
+  const node = raw as Record<string, unknown>;
+
+  if (node.type === "condition") {
+    if (
+      !RULE_FIELDS.some((entry) => entry.value === node.field) ||
+      !RULE_OPERATORS.some((entry) => entry.value === node.operator) ||
+      typeof node.value !== "string"
+    ) {
+      return null;
+    }
+
+    return {
+      type: "condition",
+      field: node.field as RuleField,
+      operator: node.operator as RuleOperator,
+      value: node.value,
+      ...(node.negate === true ? { negate: true } : {}),
+      ...(VARIANT_MODES.some((entry) => entry.value === node.variantMode)
+        ? { variantMode: node.variantMode as VariantMode }
+        : {}),
+    };
+  }
+
+  if (node.type === "group") {
+    if (node.combinator !== "and" && node.combinator !== "or") return null;
+    if (!Array.isArray(node.conditions)) return null;
+
+    const conditions: RuleConditionNode[] = [];
+    for (const child of node.conditions) {
+      const parsed = parseConditionNode(child);
+      if (!parsed) return null;
+      conditions.push(parsed);
+    }
+
+    return { type: "group", combinator: node.combinator, conditions };
+  }
+
+  return null;
+}
+
+// Fields whose values are money in the shop's currency, and fields that
+// only hold whole numbers.
+const PRICE_FIELDS: RuleField[] = ["price", "compareAtPrice"];
+const INTEGER_FIELDS: RuleField[] = ["inventory", "variantInventory"];
+
+export interface RuleValidationOptions {
+  // The shop's currency; price values can't be more precise than it allows.
+  // Precision isn't checked when the currency is unknown.
+  currencyCode?: string | null;
+}
+
+/**
+ * Validate a condition tree before it is saved.
+ * Returns a user-facing error message, or null if the tree is valid.
+ */
+export function validateRuleConditions(
+  group: RuleConditionGroup,
+  options: RuleValidationOptions = {},
+): string | null {
+  return validateConditionGroup(group, 1, options);
+}
+
+function validateConditionGroup(
+  group: RuleConditionGroup,
+  depth: number,
+  options: RuleValidationOptions,
+): string | null {
+  if (depth > MAX_CONDITION_DEPTH) {
+    return `Condition groups can be nested at most ${MAX_CONDITION_DEPTH} levels deep.`;
+  }
+
+  if (group.conditions.length === 0) {
+    return "Every condition group needs at least one condition.";
+  }
+
+  for (const node of group.conditions) {
+    const error =
+      node.type === "group"
+        ? validateConditionGroup(node, depth + 1, options)
+        : validateRuleCondition(node, options);
+    if (error) return error;
+  }
+
+  return null;
+}
+
+/**
+ * Validate a single condition, ignoring the group it is in.
+ * Returns a user-facing error message, or null if the condition is valid.
+ */
+export function validateRuleCondition(
+  condition: RuleCondition,
+  options: RuleValidationOptions,
+): string | null {
+  if (condition.value.trim().length === 0) {
+    return "Every condition needs a value.";
+  }
+
+  if (!getOperatorsForField(condition.field).includes(condition.operator)) {
+    return `"${getOperatorLabel(condition.operator)}" can't be used with ${condition.field}.`;
+  }
+
+  if (condition.variantMode && !getDefaultVariantMode(condition.field)) {
+    return `${condition.field} is a product-level field and has no variant mode.`;
+  }
+
+  switch (condition.operator) {
+    case "between":
+      if (splitConditionValue(condition.value).length !== 2) {
+        return `Use "min,max" as the value for between (${condition.field}).`;
+      }
+      break;
+    case "in":
+      if (splitConditionValue(condition.value).length === 0) {
+        return `List at least one value for in (${condition.field}).`;
+      }
+      break;
+    case "matches":
+      if (condition.value.length > MAX_REGEX_LENGTH) {
+        return `Regular expressions can be at most ${MAX_REGEX_LENGTH} characters.`;
+      }
+      try {
+        new RegExp(condition.value);
+      } catch {
+        return `"${condition.value}" is not a valid regular expression.`;
+      }
+      if (NESTED_QUANTIFIER.test(condition.value)) {
+        return `"${condition.value}" repeats a group that already repeats, which can make matching very slow. Remove the inner or outer quantifier.`;
+      }
+      break;
+  }
+
+  return getRuleFieldType(condition.field) === "number"
+    ? validateNumericCondition(condition, options)
+    : null;
+}
+
+/**
+ * Number fields are compared as exact decimals, so a value that doesn't
+ * parse would silently never match.
+ */
+function validateNumericCondition(
+  condition: RuleCondition,
+  options: RuleValidationOptions,
+): string | null {
+  const { field, operator } = condition;
+  const values =
+    operator === "between" || operator === "in"
+      ? splitConditionValue(condition.value)
+      : [condition.value.trim()];
+
+  const decimals: Decimal[] = [];
+  for (const value of values) {
+    const decimal = parseDecimal(value);
+    if (!decimal) {
+      return `"${value}" is not a number (${field}).`;
+    }
+
+    if (INTEGER_FIELDS.includes(field) && getDecimalPlaces(decimal) > 0) {
+      return `${field} must be a whole number, not "${value}".`;
+    }
+
+    if (PRICE_FIELDS.includes(field) && options.currencyCode) {
+      const places = getCurrencyDecimalPlaces(options.currencyCode);
+      if (getDecimalPlaces(decimal) > places) {
+        return `Prices in ${options.currencyCode} have at most ${places} decimal places, so "${value}" can never match (${field}).`;
+      }
+    }
+
+    decimals.push(decimal);
+  }
+
+  if (operator === "between" && compareDecimals(decimals[0], decimals[1]) > 0) {
+    return `The minimum is greater than the maximum for between (${field}).`;
+  }
+
+  return null;
+}
+
+/**
+ * Whether any condition in the tree, at any depth, tests one of the fields.
+ */
+export function usesRuleField(
+  group: RuleConditionGroup,
+  fields: RuleField[],
+): boolean {
+  return group.conditions.some((node) =>
+    node.type === "group"
+      ? usesRuleField(node, fields)
+      : fields.includes(node.field),
+  );
+}
+
+/**
+ * Render a condition tree as a single line, e.g.
+ * `price > 50 AND (vendor = Nike OR vendor = Adidas)`.
+ */
+export function describeRuleConditions(group: RuleConditionGroup): string {
+  return group.conditions
+    .map((node) =>
+      node.type === "group"
+        ? `(${describeRuleConditions(node)})`
+        : describeRuleCondition(node),
+    )
+    .join(group.combinator === "and" ? " AND " : " OR ");
+}
+
+/**
+ * Render a single condition, e.g. `min price > 50`.
+ */
+export function describeRuleCondition(condition: RuleCondition): string {
+  return [
+    condition.negate ? "NOT" : null,
+    condition.variantMode ?? null,
+    condition.field,
+    getOperatorLabel(condition.operator),
+    condition.value,
+  ]
+    .filter((part) => part != null)
+    .join(" ");
+}
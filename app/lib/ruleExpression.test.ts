@@ -0,0 +1,109 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import type { RuleConditionGroup } from "./ruleConditions";
+import { compileRuleExpression, formatRuleExpression } from "./ruleExpression";
+
+function compile(source: string): RuleConditionGroup {
+  const result = compileRuleExpression(source, { currencyCode: "USD" });
+  assert.ok(result.ok, result.ok ? "" : result.error.message);
+  return result.value;
+}
+
+function errorColumn(source: string): number {
+  const result = compileRuleExpression(source, { currencyCode: "USD" });
+  assert.ok(!result.ok, "expected an error");
+  return result.error.column;
+}
+
+describe("formatRuleExpression", () => {
+  it("round-trips through compileRuleExpression", () => {
+    for (const source of [
+      'price >= 50 and vendor in ("Nike", "Adidas")',
+      'not tags contains "clearance" or price between 10 and 20',
+      'all price > 5 and (title matches "^Tee" or status = "draft")',
+      'title = "say \\"hi\\"" and handle endsWith "\\\\"',
+    ]) {
+      const group = compile(source);
+      assert.deepEqual(compile(formatRuleExpression(group)), group);
+    }
+  });
+});
+
+describe("compileRuleExpression", () => {
+  it("binds and tighter than or", () => {
+    assert.deepEqual(compile("price > 1 or price > 2 and price > 3"), {
+      type: "group",
+      combinator: "or",
+      conditions: [
+        { type: "condition", field: "price", operator: "gt", value: "1" },
+        {
+          type: "group",
+          combinator: "and",
+          conditions: [
+            { type: "condition", field: "price", operator: "gt", value: "2" },
+            { type: "condition", field: "price", operator: "gt", value: "3" },
+          ],
+        },
+      ],
+    });
+  });
+
+  it("flattens groups with the same combinator", () => {
+    assert.deepEqual(
+      compile("(price > 1 and price > 2) and price > 3"),
+      compile("price > 1 and price > 2 and price > 3"),
+    );
+  });
+
+  it("pushes not over a group down to its comparisons", () => {
+    assert.deepEqual(compile('not (vendor = "a" and price > 5)'), {
+      type: "group",
+      combinator: "or",
+      conditions: [
+        {
+          type: "condition",
+          field: "vendor",
+          operator: "eq",
+          value: "a",
+          negate: true,
+        },
+        {
+          type: "condition",
+          field: "price",
+          operator: "gt",
+          value: "5",
+          negate: true,
+        },
+      ],
+    });
+    assert.deepEqual(compile('not not vendor = "a"'), compile('vendor = "a"'));
+    assert.deepEqual(
+      compile('vendor not in ("a", "b")'),
+      compile('not vendor in ("a", "b")'),
+    );
+  });
+
+  it("reports syntax errors at the offending token", () => {
+    assert.equal(errorColumn("price >"), 8);
+    assert.equal(errorColumn("colour = red"), 1);
+    assert.equal(errorColumn('vendor = "a" and (price > 1'), 28);
+    assert.equal(errorColumn('vendor = "a" and price > "x"'), 26);
+  });
+
+  it("reports validation errors at the comparison that failed", () => {
+    assert.equal(errorColumn('vendor = "a" and price between 10 and 5'), 18);
+    assert.equal(errorColumn('vendor = "a" and price > 19.999'), 18);
+    assert.equal(errorColumn('vendor = "a" and inventory > 1.5'), 18);
+    assert.equal(errorColumn('vendor = "a" or title matches "(a+)+"'), 17);
+  });
+
+  it("reports nesting errors at the group that is too deep", () => {
+    assert.equal(
+      errorColumn(
+        "price > 1 and (price > 2 or (price > 3 and (price > 4 or price > 5)))",
+      ),
+      45,
+    );
+  });
+});
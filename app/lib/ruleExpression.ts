@@ -0,0 +1,641 @@
+/**
+ * Plain-text rule expressions for the advanced editor, e.g.
+ * `price >= 50 and vendor in ("Nike", "Adidas") and not tags contains "clearance"`.
+ *
+ * Source text is tokenized, parsed into a typed AST and compiled into the
+ * condition tree rules are stored and evaluated as. Errors carry the
+ * (1-based) column they were found at.
+ * Shared between the server (saving) and the rules page (live validation),
+ * so this module must stay free of server-only imports.
+ */
+
+import {
+  MAX_CONDITION_DEPTH,
+  RULE_FIELDS,
+  VARIANT_MODES,
+  getDefaultVariantMode,
+  getOperatorsForField,
+  getRuleFieldType,
+  splitConditionValue,
+  validateRuleCondition,
+  type ConditionCombinator,
+  type RuleCondition,
+  type RuleConditionGroup,
+  type RuleConditionNode,
+  type RuleField,
+  type RuleOperator,
+  type RuleValidationOptions,
+  type VariantMode,
+} from "./ruleConditions";
+
+// Tokens
+
+type TokenType =
+  | "word"
+  | "number"
+  | "string"
+  | "symbol"
+  | "lparen"
+  | "rparen"
+  | "comma"
+  | "end";
+
+interface Token {
+  type: TokenType;
+  // Text of the token; for strings, the unescaped contents.
+  value: string;
+  column: number;
+}
+
+// AST
+
+export interface ValueNode {
+  kind: "value";
+  type: "number" | "string";
+  value: string;
+  column: number;
+}
+
+export interface ComparisonNode {
+  kind: "comparison";
+  field: RuleField;
+  variantMode?: VariantMode;
+  operator: RuleOperator;
+  // One value for most operators, two for between, one or more for in.
+  values: ValueNode[];
+  column: number;
+}
+
+export interface LogicalNode {
+  kind: "logical";
+  combinator: ConditionCombinator;
+  operands: ExpressionNode[];
+  column: number;
+}
+
+export interface NotNode {
+  kind: "not";
+  operand: ExpressionNode;
+  column: number;
+}
+
+export type ExpressionNode = ComparisonNode | LogicalNode | NotNode;
+
+export interface RuleExpressionError {
+  message: string;
+  column: number;
+}
+
+export type RuleExpressionResult<T> =
+  | { ok: true; value: T }
+  | { ok: false; error: RuleExpressionError };
+
+class ExpressionSyntaxError extends Error {
+  constructor(
+    message: string,
+    public column: number,
+  ) {
+    super(message);
+  }
+}
+
+const SYMBOL_OPERATORS: Record<string, RuleOperator> = {
+  "=": "eq",
+  "==": "eq",
+  "!=": "neq",
+  "<>": "neq",
+  ">": "gt",
+  ">=": "gte",
+  "<": "lt",
+  "<=": "lte",
+};
+
+const WORD_OPERATORS: Record<string, RuleOperator> = {
+  between: "between",
+  in: "in",
+  contains: "contains",
+  startswith: "startsWith",
+  endswith: "endsWith",
+  matches: "matches",
+};
+
+// Written form of each operator, used when formatting a tree as text.
+const OPERATOR_TEXT: Record<RuleOperator, string> = {
+  eq: "=",
+  neq: "!=",
+  gt: ">",
+  gte: ">=",
+  lt: "<",
+  lte: "<=",
+  between: "between",
+  in: "in",
+  contains: "contains",
+  startsWith: "startsWith",
+  endsWith: "endsWith",
+  matches: "matches",
+};
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < source.length) {
+    const char = source[i];
+    const column = i + 1;
+
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+
+    if (char === "(" || char === ")" || char === ",") {
+      tokens.push({
+        type: char === "(" ? "lparen" : char === ")" ? "rparen" : "comma",
+        value: char,
+        column,
+      });
+      i++;
+      continue;
+    }
+
+    if (char === '"' || char === "'") {
+      let value = "";
+      i++;
+      while (i < source.length && source[i] !== char) {
+        // \" \' and \\ are escapes; other backslashes are kept as-is so
+        // regexes like "^SKU-\d+$" can be written naturally.
+        if (source[i] === "\\" && ["\\", '"', "'"].includes(source[i + 1])) {
+          i++;
+        }
+        value += source[i];
+        i++;
+      }
+      if (i >= source.length) {
+        throw new ExpressionSyntaxError("Unterminated string.", column);
+      }
+      i++;
+      tokens.push({ type: "string", value, column });
+      continue;
+    }
+
+    const number = /^-?\d+(\.\d+)?/.exec(source.slice(i));
+    if (number) {
+      tokens.push({ type: "number", value: number[0], column });
+      i += number[0].length;
+      continue;
+    }
+
+    const symbol = /^(==|!=|<>|>=|<=|=|>|<)/.exec(source.slice(i));
+    if (symbol) {
+      tokens.push({ type: "symbol", value: symbol[0], column });
+      i += symbol[0].length;
+      continue;
+    }
+
+    const word = /^[A-Za-z_][A-Za-z0-9_-]*/.exec(source.slice(i));
+    if (word) {
+      tokens.push({ type: "word", value: word[0], column });
+      i += word[0].length;
+      continue;
+    }
+
+    throw new ExpressionSyntaxError(`Unexpected character "${char}".`, column);
+  }
+
+  tokens.push({ type: "end", value: "", column: source.length + 1 });
+  return tokens;
+}
+
+function describeToken(token: Token): string {
+  return token.type === "end" ? "end of rule" : `"${token.value}"`;
+}
+
+/**
+ * Recursive-descent parser:
+ *
+ *   expression := and ("or" and)*
+ *   and        := unary ("and" unary)*
+ *   unary      := "not" unary | "(" expression ")" | comparison
+ *   comparison := [mode] field ["not"] operator operand
+ *   operand    := value | value "and" value        (between)
+ *              |  "(" value ("," value)* ")"       (in)
+ */
+class Parser {
+  private index = 0;
+
+  constructor(private tokens: Token[]) {}
+
+  parse(): ExpressionNode {
+    const node = this.parseOr();
+    const token = this.peek();
+    if (token.type !== "end") {
+      throw new ExpressionSyntaxError(
+        `Expected "and", "or" or end of rule, found ${describeToken(token)}.`,
+        token.column,
+      );
+    }
+    return node;
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index];
+  }
+
+  private next(): Token {
+    return this.tokens[this.index++];
+  }
+
+  private isWord(token: Token, word: string): boolean {
+    return token.type === "word" && token.value.toLowerCase() === word;
+  }
+
+  private parseLogical(
+    combinator: ConditionCombinator,
+    parseOperand: () => ExpressionNode,
+  ): ExpressionNode {
+    const column = this.peek().column;
+    const operands = [parseOperand()];
+    while (this.isWord(this.peek(), combinator)) {
+      this.next();
+      operands.push(parseOperand());
+    }
+    return operands.length === 1
+      ? operands[0]
+      : { kind: "logical", combinator, operands, column };
+  }
+
+  private parseOr(): ExpressionNode {
+    return this.parseLogical("or", () => this.parseAnd());
+  }
+
+  private parseAnd(): ExpressionNode {
+    return this.parseLogical("and", () => this.parseUnary());
+  }
+
+  private parseUnary(): ExpressionNode {
+    const token = this.peek();
+
+    if (this.isWord(token, "not")) {
+      this.next();
+      return { kind: "not", operand: this.parseUnary(), column: token.column };
+    }
+
+    if (token.type === "lparen") {
+      this.next();
+      const node = this.parseOr();
+      const closing = this.next();
+      if (closing.type !== "rparen") {
+        throw new ExpressionSyntaxError(
+          `Expected ")" to close the "(" at column ${token.column}, found ${describeToken(closing)}.`,
+          closing.column,
+        );
+      }
+      return node;
+    }
+
+    return this.parseComparison();
+  }
+
+  private parseComparison(): ExpressionNode {
+    const start = this.peek();
+    let variantMode: VariantMode | undefined;
+
+    const mode = VARIANT_MODES.find((entry) => this.isWord(start, entry.value));
+    if (mode) {
+      this.next();
+      variantMode = mode.value;
+    }
+
+    const fieldToken = this.next();
+    const field = RULE_FIELDS.find(
+      (entry) =>
+        fieldToken.type === "word" &&
+        entry.value.toLowerCase() === fieldToken.value.toLowerCase(),
+    )?.value;
+    if (!field) {
+      throw new ExpressionSyntaxError(
+        fieldToken.type === "word"
+          ? `Unknown field "${fieldToken.value}". Use one of: ${RULE_FIELDS.map((entry) => entry.value).join(", ")}.`
+          : `Expected a field name, found ${describeToken(fieldToken)}.`,
+        fieldToken.column,
+      );
+    }
+    if (variantMode && !getDefaultVariantMode(field)) {
+      throw new ExpressionSyntaxError(
+        `${field} is a product-level field and has no variant mode.`,
+        start.column,
+      );
+    }
+
+    // `field not in (...)` is shorthand for `not field in (...)`.
+    const negated = this.isWord(this.peek(), "not");
+    if (negated) this.next();
+
+    const operatorToken = this.next();
+    const operator = this.readOperator(operatorToken);
+    if (!getOperatorsForField(field).includes(operator)) {
+      throw new ExpressionSyntaxError(
+        `"${operatorToken.value}" can't be used with ${field}.`,
+        operatorToken.column,
+      );
+    }
+
+    const comparison: ComparisonNode = {
+      kind: "comparison",
+      field,
+      ...(variantMode ? { variantMode } : {}),
+      operator,
+      values: this.parseOperand(operator, operatorToken),
+      column: start.column,
+    };
+
+    return negated
+      ? { kind: "not", operand: comparison, column: start.column }
+      : comparison;
+  }
+
+  private readOperator(token: Token): RuleOperator {
+    if (token.type === "symbol") return SYMBOL_OPERATORS[token.value];
+
+    if (token.type === "word") {
+      const word = token.value.toLowerCase();
+      // Also accept the two-word forms "starts with" and "ends with".
+      if (
+        (word === "starts" || word === "ends") &&
+        this.isWord(this.peek(), "with")
+      ) {
+        this.next();
+        return word === "starts" ? "startsWith" : "endsWith";
+      }
+      if (WORD_OPERATORS[word]) return WORD_OPERATORS[word];
+    }
+
+    throw new ExpressionSyntaxError(
+      `Expected an operator such as =, >, in or contains, found ${describeToken(token)}.`,
+      token.column,
+    );
+  }
+
+  private parseOperand(operator: RuleOperator, operatorToken: Token) {
+    if (operator === "between") {
+      const min = this.parseValue(operatorToken);
+      const and = this.next();
+      if (!this.isWord(and, "and")) {
+        throw new ExpressionSyntaxError(
+          `Expected "and" between the two bounds, found ${describeToken(and)}.`,
+          and.column,
+        );
+      }
+      return [min, this.parseValue(and)];
+    }
+
+    if (operator === "in") {
+      const open = this.next();
+      if (open.type !== "lparen") {
+        throw new ExpressionSyntaxError(
+          `Expected "(" to start the list after "in", found ${describeToken(open)}.`,
+          open.column,
+        );
+      }
+      const values = [this.parseValue(open)];
+      while (this.peek().type === "comma") {
+        values.push(this.parseValue(this.next()));
+      }
+      const close = this.next();
+      if (close.type !== "rparen") {
+        throw new ExpressionSyntaxError(
+          `Expected "," or ")" in the list, found ${describeToken(close)}.`,
+          close.column,
+        );
+      }
+      return values;
+    }
+
+    return [this.parseValue(operatorToken)];
+  }
+
+  private parseValue(after: Token): ValueNode {
+    const token = this.next();
+
+    if (token.type === "number" || token.type === "string") {
+      return {
+        kind: "value",
+        type: token.type,
+        value: token.value,
+        column: token.column,
+      };
+    }
+
+    // Bare words are accepted as text, e.g. status = active.
+    if (
+      token.type === "word" &&
+      !["and", "or", "not"].includes(token.value.toLowerCase())
+    ) {
+      return {
+        kind: "value",
+        type: "string",
+        value: token.value,
+        column: token.column,
+      };
+    }
+
+    throw new ExpressionSyntaxError(
+      `Expected a value after "${after.value}", found ${describeToken(token)}.`,
+      token.column,
+    );
+  }
+}
+
+/**
+ * Parse an expression into its AST.
+ */
+export function parseRuleExpression(
+  source: string,
+): RuleExpressionResult<ExpressionNode> {
+  try {
+    return { ok: true, value: new Parser(tokenize(source)).parse() };
+  } catch (error) {
+    if (error instanceof ExpressionSyntaxError) {
+      return {
+        ok: false,
+        error: { message: error.message, column: error.column },
+      };
+    }
+    throw error;
+  }
+}
+
+function compileComparison(
+  node: ComparisonNode,
+  negate: boolean,
+  options: RuleValidationOptions,
+): RuleCondition {
+  const isNumber = getRuleFieldType(node.field) === "number";
+
+  for (const value of node.values) {
+    if (isNumber && value.type !== "number") {
+      throw new ExpressionSyntaxError(
+        `${node.field} needs a number, found "${value.value}".`,
+        value.column,
+      );
+    }
+    // Lists and between bounds are stored comma-separated.
+    if (
+      (node.operator === "in" || node.operator === "between") &&
+      value.value.includes(",")
+    ) {
+      throw new ExpressionSyntaxError(
+        "List values can't contain commas.",
+        value.column,
+      );
+    }
+  }
+
+  const condition: RuleCondition = {
+    type: "condition",
+    field: node.field,
+    operator: node.operator,
+    value: node.values.map((value) => value.value).join(","),
+    ...(negate ? { negate: true } : {}),
+    ...(node.variantMode ? { variantMode: node.variantMode } : {}),
+  };
+
+  const error = validateRuleCondition(condition, options);
+  if (error) throw new ExpressionSyntaxError(error, node.column);
+  return condition;
+}
+
+// Conditions can be negated but groups can't, so `not` is pushed down to
+// the comparisons (De Morgan: not (a and b) = not a or not b).
+// `parent` is the group the node is compiled into, used to check nesting.
+function compileNode(
+  node: ExpressionNode,
+  negate: boolean,
+  options: RuleValidationOptions,
+  parent: { combinator: ConditionCombinator; depth: number } | null,
+): RuleConditionNode {
+  switch (node.kind) {
+    case "comparison":
+      return compileComparison(node, negate, options);
+    case "not":
+      return compileNode(node.operand, !negate, options, parent);
+    case "logical": {
+      const combinator: ConditionCombinator =
+        negate === (node.combinator === "and") ? "or" : "and";
+      // A group with the same combinator as its parent is flattened into it.
+      const depth = !parent
+        ? 1
+        : parent.combinator === combinator
+          ? parent.depth
+          : parent.depth + 1;
+      if (depth > MAX_CONDITION_DEPTH) {
+        throw new ExpressionSyntaxError(
+          `Condition groups can be nested at most ${MAX_CONDITION_DEPTH} levels deep.`,
+          node.column,
+        );
+      }
+      const conditions: RuleConditionNode[] = [];
+      for (const operand of node.operands) {
+        const compiled = compileNode(operand, negate, options, {
+          combinator,
+          depth,
+        });
+        // Flatten `a and (b and c)` into one group.
+        if (compiled.type === "group" && compiled.combinator === combinator) {
+          conditions.push(...compiled.conditions);
+        } else {
+          conditions.push(compiled);
+        }
+      }
+      return { type: "group", combinator, conditions };
+    }
+  }
+}
+
+/**
+ * Compile an expression into the condition tree rules are stored as.
+ * Each comparison is validated as it is compiled, so anything that compiles
+ * can be saved and errors point at the comparison that caused them.
+ */
+export function compileRuleExpression(
+  source: string,
+  options: RuleValidationOptions = {},
+): RuleExpressionResult<RuleConditionGroup> {
+  if (source.trim().length === 0) {
+    return { ok: false, error: { message: "Enter a rule.", column: 1 } };
+  }
+
+  const parsed = parseRuleExpression(source);
+  if (!parsed.ok) return parsed;
+
+  try {
+    const compiled = compileNode(parsed.value, false, options, null);
+    return {
+      ok: true,
+      value:
+        compiled.type === "group"
+          ? compiled
+          : { type: "group", combinator: "and", conditions: [compiled] },
+    };
+  } catch (error) {
+    if (error instanceof ExpressionSyntaxError) {
+      return {
+        ok: false,
+        error: { message: error.message, column: error.column },
+      };
+    }
+    throw error;
+  }
+}
+
+function formatValue(value: string, field: RuleField): string {
+  if (
+    getRuleFieldType(field) === "number" &&
+    /^-?\d+(\.\d+)?$/.test(value.trim())
+  ) {
+    return value.trim();
+  }
+  // Only backslashes the tokenizer would read as escapes need doubling.
+  return `"${value.replace(/\\(?=["'\\]|$)/g, "\\\\").replace(/"/g, '\\"')}"`;
+}
+
+function formatCondition(condition: RuleCondition): string {
+  const parts: string[] = [];
+  if (condition.negate) parts.push("not");
+  if (condition.variantMode) parts.push(condition.variantMode);
+  parts.push(condition.field, OPERATOR_TEXT[condition.operator]);
+
+  const values = splitConditionValue(condition.value);
+  switch (condition.operator) {
+    case "between":
+      parts.push(
+        values
+          .map((value) => formatValue(value, condition.field))
+          .join(" and "),
+      );
+      break;
+    case "in":
+      parts.push(
+        `(${values.map((value) => formatValue(value, condition.field)).join(", ")})`,
+      );
+      break;
+    default:
+      parts.push(formatValue(condition.value, condition.field));
+  }
+
+  return parts.join(" ");
+}
+
+/**
+ * Write a condition tree as an expression, e.g. to prefill the advanced
+ * editor with a rule built in the form.
+ */
+export function formatRuleExpression(group: RuleConditionGroup): string {
+  return group.conditions
+    .map((node) =>
+      node.type === "group"
+        ? `(${formatRuleExpression(node)})`
+        : formatCondition(node),
+    )
+    .join(` ${group.combinator} `);
+}
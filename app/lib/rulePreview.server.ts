@@ -0,0 +1,186 @@
+import prisma from "../db.server";
+import {
+  evaluateRules,
+  type ProductRule,
+  type RuleConditionGroup,
+} from "./productRules.server";
+import { getProductBatchForShop, mapStoredProduct } from "./products.server";
+import { normalizeTag } from "./tagTemplates";
+
+/**
+ * Rule preview.
+ * Runs a draft rule against the products stored in the database and reports
+ * which ones it would match. Never calls Shopify, so it is safe to run while
+ * the merchant is still editing the rule.
+ */
+
+export const PREVIEW_PAGE_SIZE = 25;
+const PREVIEW_BATCH_SIZE = 500;
+
+export interface RulePreviewDraft {
+  conditions: RuleConditionGroup;
+  tag: string;
+}
+
+export interface RulePreviewMatch {
+  shopifyProductId: string;
+  title: string | null;
+  currentTags: string[];
+  // Empty when the product already has the rendered tag.
+  tagsToAdd: string[];
+}
+
+export interface RulePreview {
+  matches: RulePreviewMatch[];
+  totalMatches: number;
+  totalProducts: number;
+  page: number;
+  pageSize: number;
+}
+
+// A draft as an unsaved, always-active rule.
+function toPreviewRule(
+  shopId: string,
+  draft: RulePreviewDraft,
+  id: string,
+): ProductRule {
+  return {
+    id,
+    shopId,
+    conditions: draft.conditions,
+    tag: draft.tag,
+    syncTag: false,
+    actions: [],
+    enabled: true,
+    position: 0,
+    exclusiveGroup: null,
+    stopProcessing: false,
+    startsAt: null,
+    endsAt: null,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  };
+}
+
+/**
+ * Evaluate a draft rule against every stored product of a shop and return
+ * one page of matches. Products are read in batches to bound memory use.
+ */
+export async function previewRuleForShop(
+  shopId: string,
+  draft: RulePreviewDraft,
+  page: number,
+): Promise<RulePreview> {
+  const rule = toPreviewRule(shopId, draft, "preview");
+
+  const totalProducts = await prisma.product.count({ where: { shopId } });
+
+  const pageStart = (page - 1) * PREVIEW_PAGE_SIZE;
+  const matches: RulePreviewMatch[] = [];
+  let totalMatches = 0;
+  let after: string | null = null;
+
+  for (;;) {
+    const batch = await getProductBatchForShop(shopId, {
+      after,
+      take: PREVIEW_BATCH_SIZE,
+    });
+    if (batch.length === 0) break;
+    after = batch[batch.length - 1].id;
+
+    for (const record of batch) {
+      const product = mapStoredProduct(record);
+      const [evaluation] = evaluateRules(product.productForEvaluation, [rule]);
+      if (!evaluation.matched) continue;
+
+      // Only keep the rows of the requested page; the rest are just counted.
+      if (
+        totalMatches >= pageStart &&
+        totalMatches < pageStart + PREVIEW_PAGE_SIZE
+      ) {
+        const existing = new Set(product.existingTags.map(normalizeTag));
+        matches.push({
+          shopifyProductId: product.shopifyProductId.toString(),
+          title: product.title,
+          currentTags: product.existingTags,
+          tagsToAdd:
+            evaluation.tag && !existing.has(normalizeTag(evaluation.tag))
+              ? [evaluation.tag]
+              : [],
+        });
+      }
+      totalMatches += 1;
+    }
+  }
+
+  return {
+    matches,
+    totalMatches,
+    totalProducts,
+    page,
+    pageSize: PREVIEW_PAGE_SIZE,
+  };
+}
+
+export interface RuleSetPreviewEntry {
+  totalMatches: number;
+  // Titles of the first few matching products.
+  examples: string[];
+}
+
+export interface RuleSetPreview {
+  entries: RuleSetPreviewEntry[];
+  totalProducts: number;
+}
+
+const RULE_SET_EXAMPLES = 3;
+
+/**
+ * Count how many stored products each of several draft rules would match,
+ * e.g. the rules a template is about to create. Each rule is evaluated on
+ * its own, ignoring schedules and exclusive groups.
+ */
+export async function previewRuleSetForShop(
+  shopId: string,
+  drafts: RulePreviewDraft[],
+): Promise<RuleSetPreview> {
+  const rules = drafts.map((draft, index) =>
+    toPreviewRule(shopId, draft, `preview-${index}`),
+  );
+  const entries: RuleSetPreviewEntry[] = drafts.map(() => ({
+    totalMatches: 0,
+    examples: [],
+  }));
+  let totalProducts = 0;
+  let after: string | null = null;
+
+  for (;;) {
+    const batch = await getProductBatchForShop(shopId, {
+      after,
+      take: PREVIEW_BATCH_SIZE,
+    });
+    if (batch.length === 0) break;
+    after = batch[batch.length - 1].id;
+    totalProducts += batch.length;
+
+    for (const record of batch) {
+      const product = mapStoredProduct(record);
+      rules.forEach((rule, index) => {
+        const [evaluation] = evaluateRules(product.productForEvaluation, [
+          rule,
+        ]);
+        if (!evaluation.matched) return;
+
+        const entry = entries[index];
+        entry.totalMatches += 1;
+        if (entry.examples.length < RULE_SET_EXAMPLES) {
+          entry.examples.push(
+            product.title ?? `Product ${product.shopifyProductId}`,
+          );
+        }
+      });
+    }
+  }
+
+  return { entries, totalProducts };
+}
@@ -0,0 +1,175 @@
+import type { RuleRunJob } from "@prisma/client";
+import prisma from "../db.server";
+import type { AdminContext } from "../webhooks/products.server";
+import { getRulesForShop } from "./productRules.server";
+import { getProductBatchForShop, mapStoredProduct } from "./products.server";
+import { applyRulesToProduct } from "./ruleApplication.server";
+
+/**
+ * Rule runs: apply a shop's rules to every stored product, not just the ones
+ * that receive a webhook. Products are processed in small batches with a
+ * pause in between to stay well inside Shopify's API rate limits, and the
+ * job's progress is saved after every batch so a run can be resumed.
+ * All operations are scoped by shopId to ensure multi-tenant safety.
+ */
+
+export type { RuleRunJob };
+
+const BATCH_SIZE = 25;
+const BATCH_DELAY_MS = 1000;
+// A running job that hasn't saved progress for this long is assumed dead
+// (e.g. the server restarted) and may be resumed.
+const STALE_AFTER_MS = 2 * 60 * 1000;
+
+export function isRuleRunJobStalled(job: RuleRunJob, now = new Date()) {
+  return (
+    job.status === "running" &&
+    now.getTime() - job.updatedAt.getTime() > STALE_AFTER_MS
+  );
+}
+
+/**
+ * A job can be resumed if it failed or stopped saving progress.
+ */
+export function isRuleRunJobResumable(job: RuleRunJob, now = new Date()) {
+  return job.status === "failed" || isRuleRunJobStalled(job, now);
+}
+
+/**
+ * Most recent run for a shop, if any.
+ */
+export async function getLatestRuleRunJob(
+  shopId: string,
+): Promise<RuleRunJob | null> {
+  return prisma.ruleRunJob.findFirst({
+    where: { shopId },
+    orderBy: { createdAt: "desc" },
+  });
+}
+
+/**
+ * Create a new run for a shop.
+ * Returns null if another run is still in progress.
+ */
+export async function startRuleRunJob(
+  shopId: string,
+): Promise<RuleRunJob | null> {
+  const latest = await getLatestRuleRunJob(shopId);
+  if (latest?.status === "running" && !isRuleRunJobStalled(latest)) {
+    return null;
+  }
+
+  // A stalled run is superseded by the new one.
+  if (latest?.status === "running") {
+    await prisma.ruleRunJob.updateMany({
+      where: { id: latest.id, shopId },
+      data: { status: "failed", error: "Superseded by a new run." },
+    });
+  }
+
+  const totalProducts = await prisma.product.count({ where: { shopId } });
+
+  return prisma.ruleRunJob.create({
+    data: { shopId, status: "running", totalProducts },
+  });
+}
+
+/**
+ * Take over a failed or stalled run so it can continue from its cursor.
+ * Returns null if the job doesn't exist or isn't resumable; the update is
+ * conditional, so two callers can't resume the same job.
+ */
+export async function resumeRuleRunJob(
+  shopId: string,
+  jobId: string,
+): Promise<RuleRunJob | null> {
+  const staleBefore = new Date(Date.now() - STALE_AFTER_MS);
+
+  const { count } = await prisma.ruleRunJob.updateMany({
+    where: {
+      id: jobId,
+      shopId,
+      OR: [
+        { status: "failed" },
+        { status: "running", updatedAt: { lt: staleBefore } },
+      ],
+    },
+    data: { status: "running", error: null, finishedAt: null },
+  });
+
+  if (count === 0) return null;
+
+  return prisma.ruleRunJob.findFirst({ where: { id: jobId, shopId } });
+}
+
+/**
+ * Process a run until every stored product has been handled.
+ * Processing errors are recorded on the job rather than thrown.
+ */
+export async function runRuleRunJob(
+  job: RuleRunJob,
+  admin: AdminContext,
+): Promise<RuleRunJob> {
+  const { shopId } = job;
+  let { cursor, processed, changed, failed } = job;
+
+  try {
+    const rules = await getRulesForShop(shopId);
+
+    for (;;) {
+      const batch = await getProductBatchForShop(shopId, {
+        after: cursor,
+        take: BATCH_SIZE,
+      });
+      if (batch.length === 0 || rules.length === 0) break;
+
+      for (const record of batch) {
+        const product = mapStoredProduct(record);
+        try {
+          const result = await applyRulesToProduct({
+            shopId,
+            admin,
+            rules,
+            productId: product.shopifyProductId,
+            productForEvaluation: product.productForEvaluation,
+            existingTags: product.existingTags,
+            current: product.actionState,
+            source: "run",
+          });
+          if (result === "changed") changed++;
+          if (result === "failed") failed++;
+        } catch (error) {
+          failed++;
+          console.error(
+            `Rule run ${job.id}: error applying rules to product ${product.shopifyProductId}:`,
+            error,
+          );
+        }
+        processed++;
+      }
+
+      cursor = batch[batch.length - 1].id;
+      await prisma.ruleRunJob.update({
+        where: { id: job.id },
+        data: { cursor, processed, changed, failed },
+      });
+
+      await new Promise((resolve) => setTimeout(resolve, BATCH_DELAY_MS));
+    }
+
+    return await prisma.ruleRunJob.update({
+      where: { id: job.id },
+      data: { status: "completed", finishedAt: new Date() },
+    });
+  } catch (error) {
+    console.error(`Rule run ${job.id} failed:`, error);
+    return prisma.ruleRunJob.update({
+      where: { id: job.id },
+      data: {
+        status: "failed",
+        error: error instanceof Error ? error.message : String(error),
+        finishedAt: new Date(),
+      },
+    });
+  }
+}
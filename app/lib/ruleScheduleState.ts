@@ -0,0 +1,44 @@
+/**
+ * Where a rule is in its schedule (startsAt/endsAt).
+ * Kept free of database imports so rule analysis can use it without
+ * loading Prisma.
+ */
+
+export type RuleScheduleState = "scheduled" | "active" | "ended";
+
+interface RuleSchedule {
+  startsAt: Date | null;
+  endsAt: Date | null;
+}
+
+/**
+ * Where a rule is in its schedule at a given time; null if it has none.
+ */
+export function getRuleScheduleState(
+  rule: RuleSchedule,
+  now: Date = new Date(),
+): RuleScheduleState | null {
+  if (!rule.startsAt && !rule.endsAt) return null;
+  if (rule.endsAt && rule.endsAt <= now) return "ended";
+  if (rule.startsAt && rule.startsAt > now) return "scheduled";
+  return "active";
+}
+
+const SCHEDULE_STATES: RuleScheduleState[] = ["scheduled", "active", "ended"];
+
+/**
+ * Schedule state to store when a rule is saved. When a rule is edited after
+ * its window opened or closed but before the schedule runner got to it, the
+ * earlier state is kept so the runner still re-runs the shop's rules.
+ */
+export function getPendingScheduleState(
+  rule: RuleSchedule,
+  stored: RuleScheduleState | null,
+): RuleScheduleState | null {
+  const state = getRuleScheduleState(rule);
+  if (!state || !stored) return state;
+
+  return SCHEDULE_STATES.indexOf(stored) < SCHEDULE_STATES.indexOf(state)
+    ? stored
+    : state;
+}
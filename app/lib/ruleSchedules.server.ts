@@ -0,0 +1,103 @@
+import prisma from "../db.server";
+import {
+  getRuleScheduleState,
+  type RuleScheduleState,
+} from "./ruleScheduleState";
+
+/**
+ * Rule schedules: rules with a start or end time only apply inside their
+ * window. The schedule runner (scripts/run-schedules.ts) looks for rules
+ * whose window opened or closed since it last ran and re-runs the shop's
+ * rules on every stored product, so tags appear and disappear on time
+ * instead of on the next product edit.
+ * Each rule stores the schedule state it was last processed in; a window
+ * opening or closing shows up as a rule whose stored state no longer
+ * matches the current one.
+ */
+
+export interface ScheduleTransition {
+  ruleId: string;
+  tag: string;
+  from: RuleScheduleState;
+  to: RuleScheduleState;
+}
+
+export interface ShopScheduleTransitions {
+  shopId: string;
+  shopDomain: string;
+  transitions: ScheduleTransition[];
+}
+
+/**
+ * Rules of installed shops whose window opened or closed, grouped by shop.
+ */
+export async function getDueScheduleTransitions(
+  now: Date = new Date(),
+): Promise<ShopScheduleTransitions[]> {
+  const rules = await prisma.productRule.findMany({
+    where: {
+      shop: { uninstalledAt: null },
+      OR: [
+        { scheduleState: "scheduled", startsAt: { lte: now } },
+        {
+          scheduleState: { in: ["scheduled", "active"] },
+          endsAt: { lte: now },
+        },
+      ],
+    },
+    select: {
+      id: true,
+      tag: true,
+      startsAt: true,
+      endsAt: true,
+      scheduleState: true,
+      shop: { select: { id: true, shopDomain: true } },
+    },
+    orderBy: { shopId: "asc" },
+  });
+
+  const byShop = new Map<string, ShopScheduleTransitions>();
+
+  for (const rule of rules) {
+    const to = getRuleScheduleState(rule, now);
+    if (!to || to === rule.scheduleState) continue;
+
+    const entry = byShop.get(rule.shop.id) ?? {
+      shopId: rule.shop.id,
+      shopDomain: rule.shop.shopDomain,
+      transitions: [],
+    };
+    entry.transitions.push({
+      ruleId: rule.id,
+      tag: rule.tag,
+      from: rule.scheduleState as RuleScheduleState,
+      to,
+    });
+    byShop.set(rule.shop.id, entry);
+  }
+
+  return Array.from(byShop.values());
+}
+
+/**
+ * Record that the shop's transitions were handled.
+ * Updates are conditional on the previous state, so a rule edited in the
+ * meantime (or claimed by another runner) is left alone. Returns the
+ * transitions that were claimed.
+ */
+export async function claimScheduleTransitions(
+  shopId: string,
+  transitions: ScheduleTransition[],
+): Promise<ScheduleTransition[]> {
+  const claimed: ScheduleTransition[] = [];
+
+  for (const transition of transitions) {
+    const { count } = await prisma.productRule.updateMany({
+      where: { id: transition.ruleId, shopId, scheduleState: transition.from },
+      data: { scheduleState: transition.to },
+    });
+    if (count > 0) claimed.push(transition);
+  }
+
+  return claimed;
+}
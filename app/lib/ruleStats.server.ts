@@ -0,0 +1,186 @@
+import type { Prisma } from "@prisma/client";
+import prisma from "../db.server";
+import type { RuleEvaluation } from "./productRules.server";
+import type { OwnedTag } from "./tagOwnership.server";
+
+/**
+ * Per-rule match statistics.
+ * Updated as webhooks and rule runs evaluate products, so the rules page
+ * only has to read counters: which products each rule currently matches,
+ * and per day how often it matched and added its tag.
+ * All operations are scoped by shopId to ensure multi-tenant safety.
+ */
+
+export interface RuleStats {
+  // Products the rule matched when they were last evaluated.
+  currentMatches: number;
+  tagsAdded7d: number;
+  tagsAdded30d: number;
+  lastMatchedAt: Date | null;
+  lastAddedAt: Date | null;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Daily rows are keyed by UTC date.
+function startOfDay(date: Date): Date {
+  return new Date(Math.floor(date.getTime() / DAY_MS) * DAY_MS);
+}
+
+/**
+ * Record which rules matched a product in an evaluation.
+ * Failures are logged, not thrown: statistics must never stop tags from
+ * being applied.
+ */
+export async function recordRuleMatches(
+  shopId: string,
+  shopifyProductId: bigint,
+  evaluations: RuleEvaluation[],
+  now: Date = new Date(),
+): Promise<void> {
+  const matchedRuleIds = evaluations
+    .filter(({ matched }) => matched)
+    .map(({ rule }) => rule.id);
+  const day = startOfDay(now);
+
+  try {
+    await prisma.$transaction(async (tx) => {
+      await tx.productRuleMatch.deleteMany({
+        where: {
+          shopId,
+          shopifyProductId,
+          ruleId: { notIn: matchedRuleIds },
+        },
+      });
+
+      for (const ruleId of matchedRuleIds) {
+        await tx.productRuleMatch.upsert({
+          where: { ruleId_shopifyProductId: { ruleId, shopifyProductId } },
+          create: { shopId, ruleId, shopifyProductId, lastMatchedAt: now },
+          update: { lastMatchedAt: now },
+        });
+        await tx.ruleDailyStat.upsert({
+          where: { ruleId_day: { ruleId, day } },
+          create: { shopId, ruleId, day, matches: 1, lastMatchedAt: now },
+          update: { matches: { increment: 1 }, lastMatchedAt: now },
+        });
+      }
+    });
+  } catch (error) {
+    console.warn(
+      `Failed to record rule matches for product ${shopifyProductId}:`,
+      error,
+    );
+  }
+}
+
+/**
+ * Forget which products a rule matches, after its conditions changed.
+ * Its products are recorded again as they are next evaluated.
+ */
+export async function clearRuleMatches(
+  tx: Prisma.TransactionClient,
+  shopId: string,
+  ruleId: string,
+): Promise<void> {
+  await tx.productRuleMatch.deleteMany({ where: { shopId, ruleId } });
+}
+
+/**
+ * Delete all statistics of a deleted rule.
+ */
+export async function deleteRuleStats(
+  tx: Prisma.TransactionClient,
+  shopId: string,
+  ruleId: string,
+): Promise<void> {
+  await clearRuleMatches(tx, shopId, ruleId);
+  await tx.ruleDailyStat.deleteMany({ where: { shopId, ruleId } });
+}
+
+/**
+ * Record tags the rules just added to a product.
+ */
+export async function recordTagsAdded(
+  shopId: string,
+  addedTags: OwnedTag[],
+  now: Date = new Date(),
+): Promise<void> {
+  const day = startOfDay(now);
+  const countByRule = new Map<string, number>();
+  for (const { ruleId } of addedTags) {
+    countByRule.set(ruleId, (countByRule.get(ruleId) ?? 0) + 1);
+  }
+
+  try {
+    for (const [ruleId, count] of countByRule) {
+      await prisma.ruleDailyStat.upsert({
+        where: { ruleId_day: { ruleId, day } },
+        create: { shopId, ruleId, day, tagsAdded: count, lastAddedAt: now },
+        update: { tagsAdded: { increment: count }, lastAddedAt: now },
+      });
+    }
+  } catch (error) {
+    console.warn("Failed to record added tags:", error);
+  }
+}
+
+/**
+ * Statistics for every rule of a shop that has any, keyed by rule id.
+ */
+export async function getRuleStatsForShop(
+  shopId: string,
+  now: Date = new Date(),
+): Promise<Record<string, RuleStats>> {
+  const today = startOfDay(now);
+  // Today plus the 6 (or 29) days before it.
+  const since7d = new Date(today.getTime() - 6 * DAY_MS);
+  const since30d = new Date(today.getTime() - 29 * DAY_MS);
+
+  const [matches, added7d, added30d, latest] = await Promise.all([
+    prisma.productRuleMatch.groupBy({
+      by: ["ruleId"],
+      where: { shopId },
+      _count: { _all: true },
+    }),
+    prisma.ruleDailyStat.groupBy({
+      by: ["ruleId"],
+      where: { shopId, day: { gte: since7d } },
+      _sum: { tagsAdded: true },
+    }),
+    prisma.ruleDailyStat.groupBy({
+      by: ["ruleId"],
+      where: { shopId, day: { gte: since30d } },
+      _sum: { tagsAdded: true },
+    }),
+    prisma.ruleDailyStat.groupBy({
+      by: ["ruleId"],
+      where: { shopId },
+      _max: { lastMatchedAt: true, lastAddedAt: true },
+    }),
+  ]);
+
+  const stats: Record<string, RuleStats> = {};
+  const get = (ruleId: string) =>
+    (stats[ruleId] ??= {
+      currentMatches: 0,
+      tagsAdded7d: 0,
+      tagsAdded30d: 0,
+      lastMatchedAt: null,
+      lastAddedAt: null,
+    });
+
+  for (const row of matches) get(row.ruleId).currentMatches = row._count._all;
+  for (const row of added7d) {
+    get(row.ruleId).tagsAdded7d = row._sum.tagsAdded ?? 0;
+  }
+  for (const row of added30d) {
+    get(row.ruleId).tagsAdded30d = row._sum.tagsAdded ?? 0;
+  }
+  for (const row of latest) {
+    get(row.ruleId).lastMatchedAt = row._max.lastMatchedAt;
+    get(row.ruleId).lastAddedAt = row._max.lastAddedAt;
+  }
+
+  return stats;
+}
@@ -0,0 +1,318 @@
+import type { ProductRuleData } from "./productRules.server";
+import {
+  splitConditionValue,
+  validateRuleConditions,
+  type RuleCondition,
+  type RuleConditionGroup,
+  type RuleValidationOptions,
+} from "./ruleConditions";
+import { validateTagTemplate } from "./tagTemplates";
+
+/**
+ * Rule templates.
+ * A built-in library of common tagging strategies. Each template takes a
+ * few parameters and builds one or more ready-made rules, which are then
+ * created like rules from the editor.
+ */
+
+export interface RuleTemplateParam {
+  name: string;
+  label: string;
+  type: "number" | "text" | "list";
+  defaultValue: string;
+  helpText?: string;
+}
+
+export interface RuleTemplate {
+  id: string;
+  name: string;
+  description: string;
+  params: RuleTemplateParam[];
+}
+
+type TemplateValues = Record<string, string>;
+
+interface TemplateDefinition extends RuleTemplate {
+  build(values: TemplateValues, now: Date): ProductRuleData[] | string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function condition(
+  field: RuleCondition["field"],
+  operator: RuleCondition["operator"],
+  value: string,
+): RuleCondition {
+  return { type: "condition", field, operator, value };
+}
+
+function group(...conditions: RuleCondition[]): RuleConditionGroup {
+  return { type: "group", combinator: "and", conditions };
+}
+
+function rule(
+  conditions: RuleConditionGroup,
+  tag: string,
+  overrides: Partial<ProductRuleData> = {},
+): ProductRuleData {
+  return {
+    conditions,
+    tag,
+    syncTag: true,
+    actions: [],
+    enabled: true,
+    exclusiveGroup: null,
+    stopProcessing: false,
+    startsAt: null,
+    endsAt: null,
+    ...overrides,
+  };
+}
+
+// Lowercase with dashes, e.g. "Acme Co." -> "acme-co".
+function slugify(value: string): string {
+  return value
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+}
+
+function readNumber(values: TemplateValues, name: string): number | null {
+  const value = Number(values[name]);
+  return values[name]?.trim() && Number.isFinite(value) ? value : null;
+}
+
+const TEMPLATES: TemplateDefinition[] = [
+  {
+    id: "low-stock",
+    name: "Low stock",
+    description:
+      "Tag products that are running low but not yet sold out. The tag is removed again when they are restocked.",
+    params: [
+      {
+        name: "threshold",
+        label: "Fewer than (units)",
+        type: "number",
+        defaultValue: "5",
+      },
+      { name: "tag", label: "Tag", type: "text", defaultValue: "low-stock" },
+    ],
+    build(values) {
+      const threshold = readNumber(values, "threshold");
+      if (threshold == null || threshold <= 0) {
+        return "The threshold must be a number greater than 0.";
+      }
+      return [
+        rule(
+          group(
+            condition("inventory", "lt", String(threshold)),
+            condition("inventory", "gt", "0"),
+          ),
+          values.tag,
+        ),
+      ];
+    },
+  },
+  {
+    id: "out-of-stock",
+    name: "Out of stock",
+    description:
+      "Tag products with no inventory left. The tag is removed again when they are restocked.",
+    params: [
+      {
+        name: "tag",
+        label: "Tag",
+        type: "text",
+        defaultValue: "out-of-stock",
+      },
+    ],
+    build(values) {
+      return [rule(group(condition("inventory", "lte", "0")), values.tag)];
+    },
+  },
+  {
+    id: "price-bands",
+    name: "Price bands",
+    description:
+      "One rule per price range, by lowest variant price, e.g. price-under-25, price-25-50 and price-50-plus. Each product gets exactly one band.",
+    params: [
+      {
+        name: "bounds",
+        label: "Band boundaries",
+        type: "list",
+        defaultValue: "25, 50, 100",
+        helpText: "Prices where one band ends and the next starts.",
+      },
+      {
+        name: "prefix",
+        label: "Tag prefix",
+        type: "text",
+        defaultValue: "price",
+      },
+    ],
+    build(values) {
+      const bounds = splitConditionValue(values.bounds).map(Number);
+      if (
+        bounds.length === 0 ||
+        bounds.some((bound) => !Number.isFinite(bound) || bound <= 0)
+      ) {
+        return "Enter one or more prices greater than 0, separated by commas.";
+      }
+      if (
+        bounds.some((bound, index) => index > 0 && bound <= bounds[index - 1])
+      ) {
+        return "Band boundaries must be in increasing order.";
+      }
+
+      const prefix = slugify(values.prefix) || "price";
+      const options = { exclusiveGroup: `${prefix}-band` };
+      const last = bounds[bounds.length - 1];
+
+      return [
+        rule(
+          group(condition("price", "lt", String(bounds[0]))),
+          `${prefix}-under-${bounds[0]}`,
+          options,
+        ),
+        ...bounds
+          .slice(1)
+          .map((bound, index) =>
+            rule(
+              group(
+                condition("price", "gte", String(bounds[index])),
+                condition("price", "lt", String(bound)),
+              ),
+              `${prefix}-${bounds[index]}-${bound}`,
+              options,
+            ),
+          ),
+        rule(
+          group(condition("price", "gte", String(last))),
+          `${prefix}-${last}-plus`,
+          options,
+        ),
+      ];
+    },
+  },
+  {
+    id: "by-vendor",
+    name: "By vendor",
+    description:
+      "One rule per vendor, tagging its products with the vendor name, e.g. vendor-acme.",
+    params: [
+      {
+        name: "vendors",
+        label: "Vendors",
+        type: "list",
+        defaultValue: "",
+        helpText: "Vendor names, separated by commas.",
+      },
+      {
+        name: "prefix",
+        label: "Tag prefix",
+        type: "text",
+        defaultValue: "vendor",
+      },
+    ],
+    build(values) {
+      const vendors = splitConditionValue(values.vendors);
+      if (vendors.length === 0) return "Enter at least one vendor.";
+
+      const prefix = slugify(values.prefix);
+      return vendors.map((vendor) =>
+        rule(
+          group(condition("vendor", "eq", vendor)),
+          [prefix, slugify(vendor)].filter(Boolean).join("-"),
+        ),
+      );
+    },
+  },
+  {
+    id: "new-arrivals",
+    name: "New arrivals",
+    description:
+      "Tag the products of a new line (a vendor or product type) as new arrivals from now on, and remove the tag automatically after a number of days.",
+    params: [
+      {
+        name: "productType",
+        label: "Product type",
+        type: "text",
+        defaultValue: "",
+        helpText: "Fill in a product type, a vendor or both.",
+      },
+      { name: "vendor", label: "Vendor", type: "text", defaultValue: "" },
+      { name: "days", label: "Days", type: "number", defaultValue: "30" },
+      { name: "tag", label: "Tag", type: "text", defaultValue: "new-arrival" },
+    ],
+    build(values, now) {
+      const days = readNumber(values, "days");
+      if (days == null || days <= 0 || !Number.isInteger(days)) {
+        return "Days must be a whole number greater than 0.";
+      }
+
+      const conditions = [
+        ...(values.productType?.trim()
+          ? [condition("productType", "eq", values.productType.trim())]
+          : []),
+        ...(values.vendor?.trim()
+          ? [condition("vendor", "eq", values.vendor.trim())]
+          : []),
+      ];
+      if (conditions.length === 0) {
+        return "Enter a product type or a vendor.";
+      }
+
+      return [
+        rule(group(...conditions), values.tag, {
+          startsAt: now,
+          endsAt: new Date(now.getTime() + days * DAY_MS),
+        }),
+      ];
+    },
+  },
+];
+
+/**
+ * The templates, without their builders, for listing in the UI.
+ */
+export function getRuleTemplates(): RuleTemplate[] {
+  return TEMPLATES.map(({ id, name, description, params }) => ({
+    id,
+    name,
+    description,
+    params,
+  }));
+}
+
+/**
+ * Build a template's rules from the submitted parameters, filling in
+ * defaults for missing ones. Every rule is validated like a rule saved from
+ * the editor.
+ */
+export function buildRuleTemplate(
+  templateId: string,
+  values: TemplateValues,
+  options: RuleValidationOptions = {},
+  now: Date = new Date(),
+): { rules: ProductRuleData[] } | { error: string } {
+  const template = TEMPLATES.find((entry) => entry.id === templateId);
+  if (!template) return { error: "Unknown template." };
+
+  const filled: TemplateValues = {};
+  for (const param of template.params) {
+    const value = values[param.name]?.trim();
+    filled[param.name] = value || param.defaultValue;
+  }
+
+  const rules = template.build(filled, now);
+  if (typeof rules === "string") return { error: rules };
+
+  for (const entry of rules) {
+    const error =
+      validateRuleConditions(entry.conditions, options) ??
+      validateTagTemplate(entry.tag);
+    if (error) return { error };
+  }
+
+  return { rules };
+}
@@ -0,0 +1,235 @@
+import type { Product } from "@prisma/client";
+import prisma from "../db.server";
+import {
+  evaluateProductRules,
+  explainRules,
+  getRulesForShop,
+  type ConditionTrace,
+  type ProductForEvaluation,
+} from "./productRules.server";
+import { getProductVariants } from "./products.server";
+import { describeRuleConditions } from "./ruleConditions";
+import { normalizeTag } from "./tagTemplates";
+
+/**
+ * Rule tester.
+ * Runs the shop's rules against a sample product, typed in by the merchant
+ * or copied from a synced product, and explains each result so merchants
+ * can see why a product was or wasn't tagged.
+ * All operations are scoped by shopId to ensure multi-tenant safety.
+ */
+
+// Form values as entered in the tester; numbers stay strings until tested.
+export interface SampleVariant {
+  price: string;
+  compareAtPrice: string;
+  sku: string;
+  inventoryQuantity: string;
+  weight: string; // grams
+}
+
+export interface SampleProduct {
+  title: string;
+  vendor: string;
+  productType: string;
+  status: string;
+  handle: string;
+  tags: string; // comma-separated, like Shopify
+  variants: SampleVariant[];
+}
+
+export interface TestProductOption {
+  id: string;
+  title: string;
+  sample: SampleProduct;
+}
+
+export interface RuleTestResult {
+  ruleId: string;
+  tag: string;
+  summary: string;
+  enabled: boolean;
+  matched: boolean;
+  // Set when an earlier rule won the rule's exclusive group or stopped
+  // processing, so the rule wasn't evaluated.
+  skipped: string | null;
+  // Tag the rule would add; null if it didn't match or the template had
+  // nothing to fill in.
+  renderedTag: string | null;
+  failedConditions: ConditionTrace[];
+}
+
+export interface RuleTestReport {
+  results: RuleTestResult[];
+  // Tags enabled rules would add that the sample doesn't already have.
+  tagsToAdd: string[];
+}
+
+const MAX_TEST_PRODUCTS = 10;
+
+const EMPTY_SAMPLE_VARIANT: SampleVariant = {
+  price: "",
+  compareAtPrice: "",
+  sku: "",
+  inventoryQuantity: "",
+  weight: "",
+};
+
+/**
+ * Parse a submitted sample product.
+ * Returns null if the value does not have the expected shape.
+ */
+export function parseSampleProduct(raw: unknown): SampleProduct | null {
+  if (!raw || typeof raw !== "object") return null;
+  const sample = raw as Record<string, unknown>;
+  const text = (value: unknown) => (typeof value === "string" ? value : "");
+
+  if (!Array.isArray(sample.variants)) return null;
+
+  return {
+    title: text(sample.title),
+    vendor: text(sample.vendor),
+    productType: text(sample.productType),
+    status: text(sample.status),
+    handle: text(sample.handle),
+    tags: text(sample.tags),
+    variants: sample.variants.map((entry) => {
+      const variant = (entry ?? {}) as Record<string, unknown>;
+      return {
+        price: text(variant.price),
+        compareAtPrice: text(variant.compareAtPrice),
+        sku: text(variant.sku),
+        inventoryQuantity: text(variant.inventoryQuantity),
+        weight: text(variant.weight),
+      };
+    }),
+  };
+}
+
+function splitTags(tags: string): string[] {
+  return tags
+    .split(",")
+    .map((tag) => tag.trim())
+    .filter((tag) => tag.length > 0);
+}
+
+/**
+ * Map a sample to the shape used for rule evaluation.
+ * Blank fields are treated as missing, like absent values from Shopify.
+ */
+function toProductForEvaluation(sample: SampleProduct): ProductForEvaluation {
+  const textOrNull = (value: string) => value.trim() || null;
+  const numberOrNull = (value: string) => {
+    if (value.trim().length === 0) return null;
+    const parsed = Number(value);
+    return Number.isFinite(parsed) ? parsed : null;
+  };
+
+  const variants = sample.variants.map((variant) => ({
+    price: textOrNull(variant.price),
+    compareAtPrice: textOrNull(variant.compareAtPrice),
+    sku: textOrNull(variant.sku),
+    inventoryQuantity: numberOrNull(variant.inventoryQuantity),
+    weight: numberOrNull(variant.weight),
+  }));
+
+  // Total inventory is the sum across variants, as in product webhooks.
+  const quantities = variants
+    .map((variant) => variant.inventoryQuantity)
+    .filter((quantity): quantity is number => quantity != null);
+
+  return {
+    variants,
+    totalInventory:
+      quantities.length > 0
+        ? quantities.reduce((sum, quantity) => sum + quantity, 0)
+        : null,
+    title: textOrNull(sample.title),
+    vendor: textOrNull(sample.vendor),
+    productType: textOrNull(sample.productType),
+    status: textOrNull(sample.status),
+    handle: textOrNull(sample.handle),
+    tags: splitTags(sample.tags),
+  };
+}
+
+function toSampleProduct(product: Product): SampleProduct {
+  const variants = getProductVariants(product);
+  const text = (value: string | number | null | undefined) =>
+    value == null ? "" : String(value);
+
+  return {
+    title: text(product.title),
+    vendor: text(product.vendor),
+    productType: text(product.productType),
+    status: text(product.status),
+    handle: text(product.handle),
+    tags: text(product.tags),
+    variants:
+      variants.length > 0
+        ? variants.map((variant) => ({
+            price: text(variant.price),
+            compareAtPrice: text(variant.compareAtPrice),
+            sku: text(variant.sku),
+            inventoryQuantity: text(variant.inventoryQuantity),
+            weight: text(variant.weight),
+          }))
+        : [EMPTY_SAMPLE_VARIANT],
+  };
+}
+
+/**
+ * Synced products whose title contains the query, to load into the tester.
+ */
+export async function findTestProducts(
+  shopId: string,
+  query: string,
+): Promise<TestProductOption[]> {
+  const products = await prisma.product.findMany({
+    where: {
+      shopId,
+      ...(query.trim()
+        ? { title: { contains: query.trim(), mode: "insensitive" } }
+        : {}),
+    },
+    orderBy: { title: "asc" },
+    take: MAX_TEST_PRODUCTS,
+  });
+
+  return products.map((product) => ({
+    id: product.id,
+    title: product.title ?? `Product ${product.shopifyProductId}`,
+    sample: toSampleProduct(product),
+  }));
+}
+
+/**
+ * Run every rule of the shop against a sample product.
+ * Nothing is written and no Shopify calls are made.
+ */
+export async function testRulesForShop(
+  shopId: string,
+  sample: SampleProduct,
+): Promise<RuleTestReport> {
+  const rules = await getRulesForShop(shopId);
+  const product = toProductForEvaluation(sample);
+
+  const existing = new Set((product.tags ?? []).map(normalizeTag));
+  const tagsToAdd = evaluateProductRules(product, rules).filter(
+    (tag) => !existing.has(normalizeTag(tag)),
+  );
+
+  return {
+    results: explainRules(product, rules).map((explanation) => ({
+      ruleId: explanation.rule.id,
+      tag: explanation.rule.tag,
+      summary: describeRuleConditions(explanation.rule.conditions),
+      enabled: explanation.rule.enabled,
+      matched: explanation.matched,
+      skipped: explanation.skipped ?? null,
+      renderedTag: explanation.tag,
+      failedConditions: explanation.failedConditions,
+    })),
+    tagsToAdd,
+  };
+}
@@ -0,0 +1,598 @@
+import type { Prisma } from "@prisma/client";
+import prisma from "../db.server";
+import {
+  getNextRulePosition,
+  getRulesForShop,
+  removesOwnTags,
+  type ProductRule,
+  type ProductRuleData,
+} from "./productRules.server";
+import { parseRuleActions, validateRuleActions } from "./ruleActions";
+import {
+  describeRuleConditions,
+  parseRuleConditions,
+  validateRuleConditions,
+  type RuleValidationOptions,
+} from "./ruleConditions";
+import {
+  getPendingScheduleState,
+  type RuleScheduleState,
+} from "./ruleScheduleState";
+import { deleteRuleStats } from "./ruleStats.server";
+import {
+  describeRuleChanges,
+  recordRuleVersion,
+  type RuleSnapshot,
+} from "./ruleVersions.server";
+import { releaseRuleTags } from "./tagOwnership.server";
+import { normalizeTag, validateTagTemplate } from "./tagTemplates";
+
+/**
+ * Rule import and export.
+ * A shop's rule set is written to a versioned JSON or CSV file, in rule
+ * order, so the same rules can be loaded into another shop. Imports are
+ * validated row by row and diffed against the existing rules before being
+ * applied.
+ * All operations are scoped by shopId to ensure multi-tenant safety.
+ */
+
+export type RuleFileFormat = "json" | "csv";
+export type RuleImportMode = "merge" | "replace";
+
+// Bump when the file layout changes; older versions must keep importing.
+// Version 2 added exclusive groups and stop processing, version 3 added
+// schedules.
+export const RULE_FILE_VERSION = 3;
+const RULE_FILE_KIND = "product-rules";
+const CSV_COLUMNS = [
+  "version",
+  "position",
+  "enabled",
+  "tag",
+  "sync_tag",
+  "conditions",
+  "actions",
+  "exclusive_group",
+  "stop_processing",
+  "starts_at",
+  "ends_at",
+] as const;
+// Columns version 1 files don't have.
+const OPTIONAL_CSV_COLUMNS: ReadonlyArray<(typeof CSV_COLUMNS)[number]> = [
+  "exclusive_group",
+  "stop_processing",
+  "starts_at",
+  "ends_at",
+];
+
+interface ExportedRule extends RuleSnapshot {
+  position: number;
+}
+
+export interface RuleImportError {
+  row: number;
+  message: string;
+}
+
+export interface RuleImportChange {
+  change: "added" | "updated" | "removed" | "unchanged";
+  tag: string;
+  summary: string;
+  details: string[];
+}
+
+export interface RuleImportPlan {
+  errors: RuleImportError[];
+  changes: RuleImportChange[];
+}
+
+function toExportedRule(rule: ProductRule, position: number): ExportedRule {
+  return {
+    position,
+    enabled: rule.enabled,
+    tag: rule.tag,
+    syncTag: rule.syncTag,
+    conditions: rule.conditions,
+    actions: rule.actions,
+    exclusiveGroup: rule.exclusiveGroup,
+    stopProcessing: rule.stopProcessing,
+    startsAt: rule.startsAt,
+    endsAt: rule.endsAt,
+  };
+}
+
+/**
+ * Serialise a shop's rules, in evaluation order.
+ */
+export async function exportRulesForShop(
+  shopId: string,
+  format: RuleFileFormat,
+): Promise<string> {
+  const rules = (await getRulesForShop(shopId)).map((rule, index) =>
+    toExportedRule(rule, index + 1),
+  );
+
+  if (format === "json") {
+    return JSON.stringify(
+      {
+        kind: RULE_FILE_KIND,
+        version: RULE_FILE_VERSION,
+        exportedAt: new Date().toISOString(),
+        rules,
+      },
+      null,
+      2,
+    );
+  }
+
+  const lines = [CSV_COLUMNS.join(",")];
+  for (const rule of rules) {
+    lines.push(
+      [
+        String(RULE_FILE_VERSION),
+        String(rule.position),
+        String(rule.enabled),
+        rule.tag,
+        String(rule.syncTag),
+        JSON.stringify(rule.conditions),
+        JSON.stringify(rule.actions),
+        rule.exclusiveGroup ?? "",
+        String(rule.stopProcessing),
+        rule.startsAt?.toISOString() ?? "",
+        rule.endsAt?.toISOString() ?? "",
+      ]
+        .map(toCsvCell)
+        .join(","),
+    );
+  }
+
+  return lines.join("\r\n") + "\r\n";
+}
+
+// Spreadsheets run cells starting with these as formulas. Such cells are
+// written with a leading ' (as are cells already starting with one, so the
+// prefix round-trips) and the ' is removed again on import.
+const FORMULA_PREFIX = /^[=+\-@\t\r']/;
+
+function toCsvCell(value: string): string {
+  const text = FORMULA_PREFIX.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function fromCsvCell(cell: string): string {
+  return cell.startsWith("'") && FORMULA_PREFIX.test(cell.slice(1))
+    ? cell.slice(1)
+    : cell;
+}
+
+/**
+ * Split CSV text into rows of cells (RFC 4180: quoted cells may contain
+ * commas, quotes and line breaks). Removes the formula guard added by
+ * toCsvCell.
+ */
+function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(fromCsvCell(cell));
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(fromCsvCell(cell));
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell.length > 0 || row.length > 0) {
+    row.push(fromCsvCell(cell));
+    rows.push(row);
+  }
+
+  // Ignore blank lines, e.g. a trailing newline.
+  return rows.filter((cells) => cells.some((value) => value.trim() !== ""));
+}
+
+interface RuleFileEntry {
+  row: number;
+  raw: Record<string, unknown>;
+}
+
+/**
+ * Turn file rows into raw rule entries, numbered the way the merchant sees
+ * them (JSON: position in the list, CSV: line in the file).
+ */
+function readRuleFile(
+  content: string,
+  format: RuleFileFormat,
+): { entries: RuleFileEntry[] } | { error: string } {
+  if (format === "json") {
+    let file: unknown;
+    try {
+      file = JSON.parse(content);
+    } catch {
+      return { error: "The file is not valid JSON." };
+    }
+
+    const { kind, version, rules } = (file ?? {}) as Record<string, unknown>;
+    if (kind !== RULE_FILE_KIND || !Array.isArray(rules)) {
+      return { error: "The file is not a product rules export." };
+    }
+    if (typeof version !== "number" || version > RULE_FILE_VERSION) {
+      return {
+        error: `Unsupported file version ${String(version)}. This app reads version ${RULE_FILE_VERSION} and older.`,
+      };
+    }
+
+    return {
+      entries: rules.map((raw, index) => ({
+        row: index + 1,
+        raw: (raw ?? {}) as Record<string, unknown>,
+      })),
+    };
+  }
+
+  const [header, ...rows] = parseCsv(content);
+  const columns = header?.map((column) => column.trim());
+  const required = CSV_COLUMNS.filter(
+    (column) => !OPTIONAL_CSV_COLUMNS.includes(column),
+  );
+  if (!columns || required.some((column) => !columns.includes(column))) {
+    return {
+      error: `The CSV file must have the columns: ${required.join(", ")}.`,
+    };
+  }
+
+  return {
+    entries: rows.map((cells, index) => {
+      const value = (column: (typeof CSV_COLUMNS)[number]) =>
+        cells[columns.indexOf(column)] ?? "";
+      const parseJson = (text: string) => {
+        try {
+          return JSON.parse(text) as unknown;
+        } catch {
+          return undefined;
+        }
+      };
+
+      return {
+        // +2: the header is line 1 and lines are 1-based.
+        row: index + 2,
+        raw: {
+          version: Number(value("version")),
+          position: Number(value("position")),
+          enabled: value("enabled").trim().toLowerCase(),
+          tag: value("tag"),
+          syncTag: value("sync_tag").trim().toLowerCase(),
+          conditions: parseJson(value("conditions")),
+          actions: parseJson(value("actions")),
+          exclusiveGroup: value("exclusive_group"),
+          stopProcessing:
+            value("stop_processing").trim().toLowerCase() || undefined,
+          startsAt: value("starts_at").trim() || undefined,
+          endsAt: value("ends_at").trim() || undefined,
+        },
+      };
+    }),
+  };
+}
+
+function parseBoolean(value: unknown): boolean | null {
+  if (value === true || value === "true") return true;
+  if (value === false || value === "false") return false;
+  return null;
+}
+
+// Schedule times are stored as UTC ISO 8601 strings, so files can move
+// between shops in different time zones. Missing means no limit.
+function parseTime(value: unknown): Date | null | undefined {
+  if (value == null || value === "") return null;
+  if (typeof value !== "string") return undefined;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? undefined : date;
+}
+
+/**
+ * Parse and validate every rule in a file.
+ * Rules come back in file order (by position where given).
+ */
+export function parseRuleFile(
+  content: string,
+  format: RuleFileFormat,
+  options: RuleValidationOptions = {},
+): { rules: ProductRuleData[]; errors: RuleImportError[] } {
+  const file = readRuleFile(content, format);
+  if ("error" in file) {
+    return { rules: [], errors: [{ row: 0, message: file.error }] };
+  }
+
+  const errors: RuleImportError[] = [];
+  const parsed: Array<{ position: number; rule: ProductRuleData }> = [];
+
+  for (const { row, raw } of file.entries) {
+    const fail = (message: string) => errors.push({ row, message });
+
+    if (
+      raw.version !== undefined &&
+      (!Number.isInteger(raw.version) ||
+        (raw.version as number) > RULE_FILE_VERSION)
+    ) {
+      fail(`Unsupported version ${String(raw.version)}.`);
+      continue;
+    }
+
+    const conditions = parseRuleConditions(raw.conditions);
+    const actions = parseRuleActions(raw.actions ?? []);
+    const enabled = parseBoolean(raw.enabled ?? true);
+    const syncTag = parseBoolean(raw.syncTag ?? false);
+    const stopProcessing = parseBoolean(raw.stopProcessing ?? false);
+    const tag = typeof raw.tag === "string" ? raw.tag.trim() : "";
+    const exclusiveGroup =
+      typeof raw.exclusiveGroup === "string"
+        ? raw.exclusiveGroup.trim() || null
+        : null;
+    const startsAt = parseTime(raw.startsAt);
+    const endsAt = parseTime(raw.endsAt);
+
+    if (!conditions) {
+      fail("Conditions are missing or malformed.");
+      continue;
+    }
+    if (!actions) {
+      fail("Actions are malformed.");
+      continue;
+    }
+    if (enabled == null || syncTag == null || stopProcessing == null) {
+      fail("enabled, sync_tag and stop_processing must be true or false.");
+      continue;
+    }
+    if (tag.length === 0) {
+      fail("Tag is required.");
+      continue;
+    }
+    if (startsAt === undefined || endsAt === undefined) {
+      fail("starts_at and ends_at must be ISO 8601 times.");
+      continue;
+    }
+    if (startsAt && endsAt && endsAt <= startsAt) {
+      fail("The end time must be after the start time.");
+      continue;
+    }
+
+    const validationError =
+      validateRuleConditions(conditions, options) ??
+      validateTagTemplate(tag) ??
+      validateRuleActions(actions);
+    if (validationError) {
+      fail(validationError);
+      continue;
+    }
+
+    parsed.push({
+      position:
+        typeof raw.position === "number" && Number.isFinite(raw.position)
+          ? raw.position
+          : row,
+      rule: {
+        conditions,
+        tag,
+        syncTag,
+        actions,
+        enabled,
+        exclusiveGroup,
+        stopProcessing,
+        startsAt,
+        endsAt,
+      },
+    });
+  }
+
+  return {
+    rules: parsed
+      .sort((a, b) => a.position - b.position)
+      .map((entry) => entry.rule),
+    errors,
+  };
+}
+
+// Rules are matched between shops by what they do: the same tag with the
+// same conditions is the same rule, even if it's disabled or its actions
+// differ.
+function getRuleKey(rule: RuleSnapshot): string {
+  return `${normalizeTag(rule.tag)}\n${JSON.stringify(rule.conditions)}`;
+}
+
+function isSameRule(a: RuleSnapshot, b: RuleSnapshot): boolean {
+  return (
+    a.enabled === b.enabled &&
+    a.syncTag === b.syncTag &&
+    a.tag === b.tag &&
+    a.exclusiveGroup === b.exclusiveGroup &&
+    a.stopProcessing === b.stopProcessing &&
+    a.startsAt?.getTime() === b.startsAt?.getTime() &&
+    a.endsAt?.getTime() === b.endsAt?.getTime() &&
+    JSON.stringify(a.actions) === JSON.stringify(b.actions)
+  );
+}
+
+/**
+ * Match imported rules against the existing ones.
+ * Each imported rule is paired with at most one existing rule.
+ */
+function matchRules(existing: ProductRule[], imported: ProductRuleData[]) {
+  const unmatched = new Map<string, ProductRule[]>();
+  for (const rule of existing) {
+    const key = getRuleKey(rule);
+    unmatched.set(key, [...(unmatched.get(key) ?? []), rule]);
+  }
+
+  const pairs = imported.map((rule) => {
+    const candidates = unmatched.get(getRuleKey(rule));
+    return { rule, match: candidates?.shift() ?? null };
+  });
+
+  const leftover = Array.from(unmatched.values()).flat();
+  return { pairs, leftover };
+}
+
+/**
+ * What importing the rules would change, without changing anything.
+ */
+export async function planRuleImport(
+  shopId: string,
+  imported: ProductRuleData[],
+  mode: RuleImportMode,
+): Promise<RuleImportChange[]> {
+  const existing = await getRulesForShop(shopId);
+  const { pairs, leftover } = matchRules(existing, imported);
+  const describe = (rule: RuleSnapshot) => ({
+    tag: rule.tag,
+    summary: describeRuleConditions(rule.conditions),
+  });
+
+  const changes: RuleImportChange[] = pairs.map(({ rule, match }) => {
+    if (!match) {
+      return { change: "added", ...describe(rule), details: [] };
+    }
+    return isSameRule(match, rule)
+      ? { change: "unchanged", ...describe(rule), details: [] }
+      : {
+          change: "updated",
+          ...describe(rule),
+          details: describeRuleChanges(match, rule),
+        };
+  });
+
+  if (mode === "replace") {
+    for (const rule of leftover) {
+      changes.push({ change: "removed", ...describe(rule), details: [] });
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Apply an import in a single transaction.
+ * - merge: matching rules are updated in place, new rules are added after
+ *   the existing ones, other rules are kept.
+ * - replace: the shop ends up with exactly the imported rules, in file
+ *   order; rules not in the file are deleted.
+ * Matching rules keep their id, so tags they own stay theirs.
+ */
+export async function importRulesForShop(
+  shopId: string,
+  imported: ProductRuleData[],
+  mode: RuleImportMode,
+  changedBy: string | null = null,
+): Promise<void> {
+  const existing = await getRulesForShop(shopId);
+  const { pairs, leftover } = matchRules(existing, imported);
+  await prisma.$transaction(
+    async (tx) => {
+      // Replace uses the file order; merge appends new rules.
+      const start =
+        mode === "replace" ? 0 : await getNextRulePosition(tx, shopId);
+      const storedStates = new Map(
+        (
+          await tx.productRule.findMany({
+            where: { shopId },
+            select: { id: true, scheduleState: true },
+          })
+        ).map((row) => [row.id, row.scheduleState as RuleScheduleState | null]),
+      );
+
+      for (const [index, { rule, match }] of pairs.entries()) {
+        const data = {
+          conditions: rule.conditions as unknown as Prisma.InputJsonValue,
+          tag: rule.tag,
+          syncTag: rule.syncTag,
+          actions: rule.actions as unknown as Prisma.InputJsonValue,
+          enabled: rule.enabled,
+          exclusiveGroup: rule.exclusiveGroup,
+          stopProcessing: rule.stopProcessing,
+          startsAt: rule.startsAt,
+          endsAt: rule.endsAt,
+          // Pending, as when a rule is saved: new rules start as
+          // "scheduled", so the schedule runner applies an imported rule
+          // whose window is already open to the whole catalog.
+          scheduleState: getPendingScheduleState(
+            rule,
+            match ? (storedStates.get(match.id) ?? null) : "scheduled",
+          ),
+        };
+        const position = start + index;
+
+        if (!match) {
+          const created = await tx.productRule.create({
+            data: { shopId, ...data, position },
+          });
+          await recordRuleVersion(tx, {
+            shopId,
+            ruleId: created.id,
+            action: "created",
+            snapshot: rule,
+            changedBy,
+          });
+          continue;
+        }
+
+        const changed = !isSameRule(match, rule);
+        if (!changed && mode === "merge") continue;
+
+        await tx.productRule.updateMany({
+          where: { id: match.id, shopId },
+          data: mode === "replace" ? { ...data, position } : data,
+        });
+        if (changed) {
+          await recordRuleVersion(tx, {
+            shopId,
+            ruleId: match.id,
+            action: "updated",
+            snapshot: rule,
+            changedBy,
+          });
+        }
+      }
+
+      if (mode === "replace") {
+        for (const rule of leftover) {
+          await tx.productRule.deleteMany({ where: { id: rule.id, shopId } });
+          await deleteRuleStats(tx, shopId, rule.id);
+          // As in deleteRuleForShop: sync-mode tags are removed later.
+          if (!removesOwnTags(rule)) {
+            await releaseRuleTags(tx, shopId, rule.id);
+          }
+          await recordRuleVersion(tx, {
+            shopId,
+            ruleId: rule.id,
+            action: "deleted",
+            snapshot: rule,
+            changedBy,
+          });
+        }
+      }
+    },
+    { timeout: 30_000 },
+  );
+}
@@ -0,0 +1,268 @@
+import type { Prisma } from "@prisma/client";
+import prisma from "../db.server";
+import type { ProductRule } from "./productRules.server";
+import { describeRuleAction, parseRuleActions } from "./ruleActions";
+import { describeRuleConditions, parseRuleConditions } from "./ruleConditions";
+import { DEFAULT_TIME_ZONE, describeTimeWindow } from "./timeZones";
+
+/**
+ * Rule version history.
+ * Every change to a rule stores a snapshot of the rule after the change,
+ * so merchants can see who changed what and roll back.
+ * All operations are scoped by shopId to ensure multi-tenant safety.
+ */
+
+export type RuleVersionAction =
+  | "created"
+  | "updated"
+  | "enabled"
+  | "disabled"
+  | "deleted"
+  | "restored";
+
+export type RuleSnapshot = Pick<
+  ProductRule,
+  | "conditions"
+  | "tag"
+  | "syncTag"
+  | "actions"
+  | "enabled"
+  | "exclusiveGroup"
+  | "stopProcessing"
+  | "startsAt"
+  | "endsAt"
+>;
+
+export interface RuleVersion {
+  id: string;
+  ruleId: string;
+  version: number;
+  action: RuleVersionAction;
+  snapshot: RuleSnapshot;
+  restoredFromVersion: number | null;
+  changedBy: string | null;
+  createdAt: Date;
+}
+
+type RuleVersionRecord = Omit<RuleVersion, "action" | "snapshot"> & {
+  action: string;
+  snapshot: Prisma.JsonValue;
+};
+
+function toRuleSnapshot(rule: RuleSnapshot): RuleSnapshot {
+  return {
+    conditions: rule.conditions,
+    tag: rule.tag,
+    syncTag: rule.syncTag,
+    actions: rule.actions,
+    enabled: rule.enabled,
+    exclusiveGroup: rule.exclusiveGroup,
+    stopProcessing: rule.stopProcessing,
+    startsAt: rule.startsAt,
+    endsAt: rule.endsAt,
+  };
+}
+
+// Snapshots store dates as ISO strings.
+function parseSnapshotDate(value: unknown): Date | null {
+  if (typeof value !== "string") return null;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+function toRuleVersion(record: RuleVersionRecord): RuleVersion {
+  const snapshot = (record.snapshot ?? {}) as Record<string, unknown>;
+
+  return {
+    id: record.id,
+    ruleId: record.ruleId,
+    version: record.version,
+    action: record.action as RuleVersionAction,
+    snapshot: {
+      conditions: parseRuleConditions(snapshot.conditions) ?? {
+        type: "group",
+        combinator: "and",
+        conditions: [],
+      },
+      tag: typeof snapshot.tag === "string" ? snapshot.tag : "",
+      syncTag: snapshot.syncTag === true,
+      actions: parseRuleActions(snapshot.actions) ?? [],
+      enabled: snapshot.enabled !== false,
+      // Versions recorded before rule ordering existed have neither field.
+      exclusiveGroup:
+        typeof snapshot.exclusiveGroup === "string"
+          ? snapshot.exclusiveGroup
+          : null,
+      stopProcessing: snapshot.stopProcessing === true,
+      startsAt: parseSnapshotDate(snapshot.startsAt),
+      endsAt: parseSnapshotDate(snapshot.endsAt),
+    },
+    restoredFromVersion: record.restoredFromVersion,
+    changedBy: record.changedBy,
+    createdAt: record.createdAt,
+  };
+}
+
+/**
+ * Who made a change, for the version history. Online sessions carry the
+ * staff member's name; otherwise fall back to the user ID in the session
+ * token.
+ */
+export function getChangedBy(context: {
+  session: {
+    onlineAccessInfo?: {
+      associated_user: {
+        first_name?: string;
+        last_name?: string;
+        email?: string;
+      };
+    };
+  };
+  sessionToken?: { sub?: string };
+}): string | null {
+  const user = context.session.onlineAccessInfo?.associated_user;
+  if (user) {
+    const name = [user.first_name, user.last_name].filter(Boolean).join(" ");
+    return name || user.email || null;
+  }
+
+  return context.sessionToken?.sub
+    ? `Staff user ${context.sessionToken.sub}`
+    : null;
+}
+
+/**
+ * Append a version to a rule's history.
+ * Runs inside the caller's transaction so the rule and its history can't
+ * drift apart.
+ */
+export async function recordRuleVersion(
+  tx: Prisma.TransactionClient,
+  data: {
+    shopId: string;
+    ruleId: string;
+    action: RuleVersionAction;
+    snapshot: RuleSnapshot;
+    restoredFromVersion?: number;
+    changedBy: string | null;
+  },
+): Promise<void> {
+  const latest = await tx.productRuleVersion.findFirst({
+    where: { shopId: data.shopId, ruleId: data.ruleId },
+    orderBy: { version: "desc" },
+    select: { version: true },
+  });
+
+  await tx.productRuleVersion.create({
+    data: {
+      shopId: data.shopId,
+      ruleId: data.ruleId,
+      version: (latest?.version ?? 0) + 1,
+      action: data.action,
+      snapshot: toRuleSnapshot(
+        data.snapshot,
+      ) as unknown as Prisma.InputJsonValue,
+      restoredFromVersion: data.restoredFromVersion ?? null,
+      changedBy: data.changedBy,
+    },
+  });
+}
+
+/**
+ * Full history of a rule, newest first.
+ */
+export async function getRuleVersions(
+  shopId: string,
+  ruleId: string,
+): Promise<RuleVersion[]> {
+  const versions = await prisma.productRuleVersion.findMany({
+    where: { shopId, ruleId },
+    orderBy: { version: "desc" },
+  });
+
+  return versions.map(toRuleVersion);
+}
+
+/**
+ * A single version of a rule, or null if it doesn't exist for this shop.
+ */
+export async function getRuleVersion(
+  shopId: string,
+  ruleId: string,
+  version: number,
+): Promise<RuleVersion | null> {
+  const record = await prisma.productRuleVersion.findFirst({
+    where: { shopId, ruleId, version },
+  });
+
+  return record ? toRuleVersion(record) : null;
+}
+
+/**
+ * Rules whose latest version is a deletion, newest first, so they can
+ * still be found and restored.
+ */
+export async function getDeletedRuleVersions(
+  shopId: string,
+): Promise<RuleVersion[]> {
+  const deletions = await prisma.productRuleVersion.findMany({
+    where: { shopId, action: "deleted" },
+    orderBy: { createdAt: "desc" },
+  });
+  if (deletions.length === 0) return [];
+
+  const existing = await prisma.productRule.findMany({
+    where: { shopId, id: { in: deletions.map((entry) => entry.ruleId) } },
+    select: { id: true },
+  });
+  const existingIds = new Set(existing.map((rule) => rule.id));
+
+  const seen = new Set<string>();
+  return deletions
+    .filter((entry) => {
+      if (existingIds.has(entry.ruleId) || seen.has(entry.ruleId)) {
+        return false;
+      }
+      seen.add(entry.ruleId);
+      return true;
+    })
+    .map(toRuleVersion);
+}
+
+/**
+ * Human-readable list of what changed between two snapshots.
+ * Schedule times are shown in the given time zone.
+ */
+export function describeRuleChanges(
+  previous: RuleSnapshot | null,
+  next: RuleSnapshot,
+  timeZone: string = DEFAULT_TIME_ZONE,
+): string[] {
+  const describeActions = (snapshot: RuleSnapshot) =>
+    snapshot.actions.map(describeRuleAction).join(", ") || "none";
+  const fields: Array<[string, (snapshot: RuleSnapshot) => string]> = [
+    ["Conditions", (snapshot) => describeRuleConditions(snapshot.conditions)],
+    ["Tag", (snapshot) => snapshot.tag],
+    ["Mode", (snapshot) => (snapshot.syncTag ? "Sync" : "Add only")],
+    ["Actions", describeActions],
+    ["Enabled", (snapshot) => (snapshot.enabled ? "Yes" : "No")],
+    ["Exclusive group", (snapshot) => snapshot.exclusiveGroup ?? "none"],
+    ["Stop processing", (snapshot) => (snapshot.stopProcessing ? "Yes" : "No")],
+    [
+      "Schedule",
+      (snapshot) =>
+        describeTimeWindow(snapshot.startsAt, snapshot.endsAt, timeZone),
+    ],
+  ];
+
+  if (!previous) {
+    return fields.map(([label, describe]) => `${label}: ${describe(next)}`);
+  }
+
+  return fields
+    .filter(([, describe]) => describe(previous) !== describe(next))
+    .map(
+      ([label, describe]) =>
+        `${label}: ${describe(previous)} → ${describe(next)}`,
+    );
+}
@@ -1,5 +1,6 @@
 import type { Session } from "@shopify/shopify-app-session-storage-prisma";
 import prisma from "../db.server";
+import type { AdminContext } from "../webhooks/products.server";
 
 /**
  * Shop database operations for multi-tenant SaaS
@@ -69,9 +70,7 @@ export async function getShop(shopDomain: string): Promise<ShopData | null> {
  * Sets uninstalledAt timestamp but doesn't delete the record
  * This preserves historical data and allows for analytics
  */
-export async function markShopUninstalled(
-  shopDomain: string,
-): Promise<void> {
+export async function markShopUninstalled(shopDomain: string): Promise<void> {
   await prisma.shop.update({
     where: { shopDomain },
     data: {
@@ -93,3 +92,64 @@ export async function isShopInstalled(shopDomain: string): Promise<boolean> {
   return shop !== null && shop.uninstalledAt === null;
 }
 
+export interface ShopDetails {
+  currencyCode: string | null;
+  timezone: string | null;
+}
+
+/**
+ * Fetch the shop's currency and time zone from Shopify and store them
+ * Rules use the currency for price precision and the time zone for schedules
+ * Returns nulls (and keeps the stored values) if the request fails
+ */
+export async function syncShopDetails(
+  shopDomain: string,
+  admin: AdminContext,
+): Promise<ShopDetails> {
+  try {
+    const response = await admin.graphql(
+      `#graphql
+        query ShopDetails {
+          shop {
+            currencyCode
+            ianaTimezone
+          }
+        }`,
+    );
+    const json = (await response.json()) as {
+      data?: { shop?: { currencyCode?: string; ianaTimezone?: string } };
+    };
+
+    const details = {
+      currencyCode: json.data?.shop?.currencyCode ?? null,
+      timezone: json.data?.shop?.ianaTimezone ?? null,
+    };
+    await saveShopDetails(shopDomain, details);
+
+    return details;
+  } catch (error) {
+    console.warn(`Failed to fetch shop details for ${shopDomain}:`, error);
+    return { currencyCode: null, timezone: null };
+  }
+}
+
+/**
+ * Store the shop's currency and time zone, e.g. from a shop/update webhook
+ * when the merchant changes them in Shopify
+ * Missing values keep the stored ones
+ */
+export async function saveShopDetails(
+  shopDomain: string,
+  details: ShopDetails,
+): Promise<void> {
+  const { currencyCode, timezone } = details;
+  if (!currencyCode && !timezone) return;
+
+  await prisma.shop.updateMany({
+    where: { shopDomain },
+    data: {
+      ...(currencyCode ? { currencyCode } : {}),
+      ...(timezone ? { timezone } : {}),
+    },
+  });
+}
@@ -0,0 +1,76 @@
+import type { Prisma } from "@prisma/client";
+import prisma from "../db.server";
+
+/**
+ * Tag ownership operations.
+ * Records which tags the app added to which product, so sync-mode rules can
+ * remove their own tags without touching tags merchants added by hand.
+ * All operations are scoped by shopId to ensure multi-tenant safety.
+ */
+
+export interface OwnedTag {
+  tag: string;
+  ruleId: string;
+}
+
+/**
+ * Get the tags the app owns on a product.
+ */
+export async function getOwnedTags(
+  shopId: string,
+  shopifyProductId: bigint,
+): Promise<OwnedTag[]> {
+  return prisma.productTagOwnership.findMany({
+    where: { shopId, shopifyProductId },
+    select: { tag: true, ruleId: true },
+  });
+}
+
+/**
+ * Record tags the app just added to a product.
+ * Tags that are already owned keep their original rule.
+ */
+export async function recordOwnedTags(
+  shopId: string,
+  shopifyProductId: bigint,
+  tags: OwnedTag[],
+): Promise<void> {
+  if (tags.length === 0) return;
+
+  await prisma.productTagOwnership.createMany({
+    data: tags.map(({ tag, ruleId }) => ({
+      shopId,
+      shopifyProductId,
+      tag,
+      ruleId,
+    })),
+    skipDuplicates: true,
+  });
+}
+
+/**
+ * Forget ownership of tags that were removed from a product.
+ */
+export async function releaseOwnedTags(
+  shopId: string,
+  shopifyProductId: bigint,
+  tags: string[],
+): Promise<void> {
+  if (tags.length === 0) return;
+
+  await prisma.productTagOwnership.deleteMany({
+    where: { shopId, shopifyProductId, tag: { in: tags } },
+  });
+}
+
+/**
+ * Forget ownership of every tag a rule added, when the rule is deleted and
+ * its tags stay on the products.
+ */
+export async function releaseRuleTags(
+  tx: Prisma.TransactionClient,
+  shopId: string,
+  ruleId: string,
+): Promise<void> {
+  await tx.productTagOwnership.deleteMany({ where: { shopId, ruleId } });
+}
@@ -0,0 +1,55 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import { renderTagTemplate, validateTagTemplate } from "./tagTemplates";
+
+describe("renderTagTemplate", () => {
+  it("renders fields with filters", () => {
+    assert.equal(
+      renderTagTemplate("price-band:{{price | bucket: 0,25,50}}", {
+        price: 30,
+      }),
+      "price-band:25-50",
+    );
+    assert.equal(
+      renderTagTemplate("type:{{productType | default: other}}", {}),
+      "type:other",
+    );
+  });
+
+  it("treats commas in values as whitespace", () => {
+    assert.equal(
+      renderTagTemplate("vendor:{{vendor}}", { vendor: "Nike, Inc" }),
+      "vendor:nike inc",
+    );
+    assert.equal(
+      renderTagTemplate("vendor:{{vendor}}", { vendor: "a,b" }),
+      "vendor:a b",
+    );
+  });
+});
+
+describe("validateTagTemplate", () => {
+  it("accepts plain tags and valid templates", () => {
+    assert.equal(validateTagTemplate("sale"), null);
+    assert.equal(validateTagTemplate("band:{{price | bucket: 0,25,50}}"), null);
+  });
+
+  it("rejects commas outside placeholders", () => {
+    assert.equal(
+      validateTagTemplate("sale, new"),
+      "Tags can't contain commas.",
+    );
+    assert.equal(
+      validateTagTemplate("vendor:{{vendor}},x"),
+      "Tags can't contain commas.",
+    );
+  });
+
+  it("rejects commas in default values", () => {
+    assert.equal(
+      validateTagTemplate("vendor:{{vendor | default: a,b}}"),
+      "default values can't contain commas.",
+    );
+  });
+});
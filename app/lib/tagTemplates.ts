@@ -0,0 +1,231 @@
+/**
+ * Tag templates such as `vendor:{{vendor}}` or
+ * `price-band:{{price | bucket: 0,25,50,100}}`.
+ * Shared between the server (rendering) and the rules page (validation), so
+ * this module must stay free of server-only imports.
+ */
+
+import { getRuleFieldType, type RuleField } from "./ruleConditions";
+
+// Fields that can be used inside {{ }}. List fields (tags, SKUs) have no
+// single value to render, so they are left out.
+export const TAG_TEMPLATE_FIELDS: RuleField[] = [
+  "price",
+  "compareAtPrice",
+  "inventory",
+  "weight",
+  "title",
+  "vendor",
+  "productType",
+  "status",
+  "handle",
+];
+
+export type TagTemplateValues = Partial<
+  Record<RuleField, string | number | null>
+>;
+
+interface TemplateFilter {
+  name: string;
+  argText: string;
+  args: string[];
+}
+
+interface TemplatePlaceholder {
+  source: string;
+  field: RuleField;
+  filters: TemplateFilter[];
+}
+
+const PLACEHOLDER = /\{\{([^{}]*)\}\}/g;
+const FILTERS = ["bucket", "default", "slug"];
+const MAX_TAG_LENGTH = 255;
+
+export function isTagTemplate(tag: string): boolean {
+  return tag.includes("{{");
+}
+
+/**
+ * Normalise a tag so variants that only differ by whitespace or case
+ * compare equal (Shopify treats tags case-insensitively).
+ */
+export function normalizeTag(tag: string): string {
+  return tag.trim().replace(/\s+/g, " ").toLowerCase();
+}
+
+function parsePlaceholders(template: string): {
+  placeholders: TemplatePlaceholder[];
+  error: string | null;
+} {
+  const placeholders: TemplatePlaceholder[] = [];
+
+  // Anything left over after removing well-formed placeholders must not
+  // contain braces, otherwise a placeholder was left unclosed.
+  const rest = template.replace(PLACEHOLDER, "");
+  if (rest.includes("{{") || rest.includes("}}")) {
+    return { placeholders, error: "Tag template has an unclosed {{ }}." };
+  }
+
+  for (const match of template.matchAll(PLACEHOLDER)) {
+    const [fieldPart, ...filterParts] = match[1]
+      .split("|")
+      .map((part) => part.trim());
+
+    if (!TAG_TEMPLATE_FIELDS.includes(fieldPart as RuleField)) {
+      return {
+        placeholders,
+        error: `Unknown field "${fieldPart}" in tag template. Use one of: ${TAG_TEMPLATE_FIELDS.join(", ")}.`,
+      };
+    }
+
+    const filters: TemplateFilter[] = [];
+    for (const part of filterParts) {
+      const [name, argText = ""] = part.split(/:(.*)/s).map((p) => p.trim());
+      if (!FILTERS.includes(name)) {
+        return {
+          placeholders,
+          error: `Unknown filter "${name}" in tag template. Use one of: ${FILTERS.join(", ")}.`,
+        };
+      }
+      filters.push({
+        name,
+        argText,
+        args: argText
+          .split(",")
+          .map((arg) => arg.trim())
+          .filter((arg) => arg.length > 0),
+      });
+    }
+
+    placeholders.push({
+      source: match[0],
+      field: fieldPart as RuleField,
+      filters,
+    });
+  }
+
+  return { placeholders, error: null };
+}
+
+/**
+ * Fields a tag template renders; none for a plain tag or invalid template.
+ */
+export function getTagTemplateFields(tag: string): RuleField[] {
+  if (!isTagTemplate(tag)) return [];
+  const { placeholders, error } = parsePlaceholders(tag);
+  return error ? [] : placeholders.map((placeholder) => placeholder.field);
+}
+
+/**
+ * Validate a tag or tag template before it is saved.
+ * Returns a user-facing error message, or null if the tag is valid.
+ */
+export function validateTagTemplate(tag: string): string | null {
+  if (tag.length > MAX_TAG_LENGTH) {
+    return `Tags can be at most ${MAX_TAG_LENGTH} characters.`;
+  }
+
+  const { placeholders, error } = parsePlaceholders(tag);
+  if (error) return error;
+
+  // Shopify splits tags on commas, so a tag containing one would be saved
+  // as two and never match the tag the rule applies.
+  if (tag.replace(PLACEHOLDER, "").includes(",")) {
+    return "Tags can't contain commas.";
+  }
+
+  for (const placeholder of placeholders) {
+    for (const filter of placeholder.filters) {
+      if (filter.name === "bucket") {
+        if (getRuleFieldType(placeholder.field) !== "number") {
+          return `bucket can only be used with numeric fields, not ${placeholder.field}.`;
+        }
+        const bounds = filter.args.map(Number);
+        if (bounds.length < 2 || bounds.some(Number.isNaN)) {
+          return "bucket needs at least two numbers, e.g. bucket: 0,25,50.";
+        }
+        if (bounds.some((bound, i) => i > 0 && bound <= bounds[i - 1])) {
+          return "bucket boundaries must be in increasing order.";
+        }
+      }
+      if (filter.name === "default" && filter.argText.includes(",")) {
+        return "default values can't contain commas.";
+      }
+      if (filter.name === "default" && filter.args.length !== 1) {
+        return "default needs exactly one value, e.g. default: unknown.";
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Fill in a tag template from product values.
+ * Plain tags are returned trimmed but otherwise unchanged; rendered
+ * templates are normalised, with commas in product values treated as
+ * whitespace since Shopify would split the tag on them.
+ * Returns null if a field has no value and no default, so no tag should be
+ * applied.
+ */
+export function renderTagTemplate(
+  template: string,
+  values: TagTemplateValues,
+): string | null {
+  if (!isTagTemplate(template)) return template.trim();
+
+  const { placeholders, error } = parsePlaceholders(template);
+  if (error) return null;
+
+  let rendered = template;
+  for (const placeholder of placeholders) {
+    const value = renderPlaceholder(placeholder, values[placeholder.field]);
+    if (value == null) return null;
+    rendered = rendered.replace(placeholder.source, () =>
+      value.replace(/,/g, " "),
+    );
+  }
+
+  const tag = normalizeTag(rendered);
+  return tag.length > 0 && tag.length <= MAX_TAG_LENGTH ? tag : null;
+}
+
+function renderPlaceholder(
+  placeholder: TemplatePlaceholder,
+  raw: string | number | null | undefined,
+): string | null {
+  let value: string | null =
+    raw == null || raw === "" ? null : String(raw).trim();
+
+  for (const filter of placeholder.filters) {
+    switch (filter.name) {
+      case "bucket":
+        value = value == null ? null : bucketValue(Number(value), filter.args);
+        break;
+      case "default":
+        value ??= filter.args[0];
+        break;
+      case "slug":
+        value =
+          value
+            ?.toLowerCase()
+            .replace(/[^a-z0-9]+/g, "-")
+            .replace(/^-+|-+$/g, "") || null;
+        break;
+    }
+  }
+
+  return value;
+}
+
+// bucket: 0,25,50 -> "<0", "0-25", "25-50", "50+"
+function bucketValue(value: number, args: string[]): string | null {
+  if (Number.isNaN(value)) return null;
+  const bounds = args.map(Number);
+
+  if (value < bounds[0]) return `<${bounds[0]}`;
+  for (let i = 0; i < bounds.length - 1; i++) {
+    if (value < bounds[i + 1]) return `${bounds[i]}-${bounds[i + 1]}`;
+  }
+  return `${bounds[bounds.length - 1]}+`;
+}
@@ -0,0 +1,120 @@
+/**
+ * Conversions between UTC instants and wall-clock times in a shop's time
+ * zone, using only Intl (no time zone database of our own).
+ * Shared between the server and the rules page, so this module must stay
+ * free of server-only imports.
+ */
+
+// Shops whose time zone isn't known yet are treated as UTC.
+export const DEFAULT_TIME_ZONE = "UTC";
+
+const LOCAL_DATE_TIME_PATTERN = /^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2})$/;
+
+function getParts(date: Date, timeZone: string) {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+  }).formatToParts(date);
+  const part = (type: Intl.DateTimeFormatPartTypes) =>
+    parts.find((entry) => entry.type === type)?.value ?? "00";
+
+  return {
+    year: part("year"),
+    month: part("month"),
+    day: part("day"),
+    hour: part("hour"),
+    minute: part("minute"),
+  };
+}
+
+// Milliseconds the time zone is ahead of UTC at the given instant.
+function getOffset(timestamp: number, timeZone: string): number {
+  const { year, month, day, hour, minute } = getParts(
+    new Date(timestamp),
+    timeZone,
+  );
+  const wallClock = Date.UTC(
+    Number(year),
+    Number(month) - 1,
+    Number(day),
+    Number(hour),
+    Number(minute),
+  );
+
+  return wallClock - Math.floor(timestamp / 60_000) * 60_000;
+}
+
+/**
+ * The instant a wall-clock time ("2026-11-20T09:00", as produced by a
+ * datetime-local input) happens in a time zone, or null if the value isn't
+ * a valid date and time. Times skipped by a daylight saving change resolve
+ * to the instant right after the change.
+ */
+export function zonedTimeToUtc(local: string, timeZone: string): Date | null {
+  const match = LOCAL_DATE_TIME_PATTERN.exec(local.trim());
+  if (!match) return null;
+
+  const [, year, month, day, hour, minute] = match.map(Number);
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute);
+  const check = new Date(wallClock);
+  if (check.getUTCMonth() !== month - 1 || check.getUTCDate() !== day) {
+    return null;
+  }
+
+  // The offset depends on the instant we're looking for; a second pass
+  // corrects guesses that land on the other side of a DST change.
+  const first = wallClock - getOffset(wallClock, timeZone);
+  const second = wallClock - getOffset(first, timeZone);
+  const exists = (timestamp: number) =>
+    getOffset(timestamp, timeZone) === wallClock - timestamp;
+
+  if (exists(second)) return new Date(second);
+  if (exists(first)) return new Date(first);
+  return new Date(Math.max(first, second));
+}
+
+/**
+ * An instant as a wall-clock time in a time zone, in the datetime-local
+ * input format ("2026-11-20T09:00").
+ */
+export function utcToZonedTime(date: Date, timeZone: string): string {
+  const { year, month, day, hour, minute } = getParts(date, timeZone);
+  return `${year}-${month}-${day}T${hour}:${minute}`;
+}
+
+/**
+ * Whether Intl knows the time zone, e.g. "America/New_York".
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * A time window as wall-clock times in a time zone, e.g.
+ * "from 2026-11-20 09:00 until 2026-12-01 00:00"; "always" if neither end
+ * is set.
+ */
+export function describeTimeWindow(
+  startsAt: Date | null,
+  endsAt: Date | null,
+  timeZone: string,
+): string {
+  const format = (date: Date) =>
+    utcToZonedTime(date, timeZone).replace("T", " ");
+  const parts = [
+    ...(startsAt ? [`from ${format(startsAt)}`] : []),
+    ...(endsAt ? [`until ${format(endsAt)}`] : []),
+  ];
+
+  return parts.length > 0 ? parts.join(" ") : "always";
+}
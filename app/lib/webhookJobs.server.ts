@@ -0,0 +1,334 @@
+import type { Prisma, WebhookJob } from "@prisma/client";
+import prisma from "../db.server";
+import {
+  processProductDeleteWebhook,
+  processProductWebhook,
+  type AdminContext,
+  type ProductDeleteWebhookPayload,
+  type ProductWebhookPayload,
+} from "../webhooks/products.server";
+import {
+  processInventoryLevelWebhook,
+  type InventoryLevelWebhookPayload,
+} from "../webhooks/inventoryLevels.server";
+import { createAdminClient, getShopSession } from "./adminClient.server";
+import { claimWebhook, releaseWebhook } from "./processedWebhooks.server";
+import { incrementWebhookMetric } from "./webhookMetrics.server";
+
+/**
+ * Webhook job queue.
+ * Webhook routes only store a job and acknowledge the delivery, so slow
+ * Admin API calls can't make Shopify time out and a failure doesn't lose
+ * the work. A worker (scripts/process-webhook-jobs.ts) claims jobs with
+ * FOR UPDATE SKIP LOCKED, so any number of workers can share the queue.
+ * Failed jobs are retried with exponential backoff; after MAX_ATTEMPTS they
+ * are "dead" and stay in the table until requeued.
+ */
+
+export type { WebhookJob };
+
+export type WebhookJobStatus = "pending" | "processing" | "completed" | "dead";
+
+export const MAX_ATTEMPTS = 8;
+export const COMPLETED_JOB_RETENTION_DAYS = 7;
+
+const BASE_RETRY_DELAY_MS = 30 * 1000;
+const MAX_RETRY_DELAY_MS = 60 * 60 * 1000;
+// A claimed job whose lock hasn't been refreshed for this long is assumed
+// abandoned (e.g. the worker was killed) and may be claimed again. Workers
+// refresh the lock while a job runs, so long handlers aren't run twice.
+const LOCK_TIMEOUT_MS = 10 * 60 * 1000;
+const LOCK_REFRESH_INTERVAL_MS = 60 * 1000;
+const JOBS_PAGE_SIZE = 50;
+
+type WebhookJobHandler = (
+  job: WebhookJob,
+  admin: AdminContext | null,
+) => Promise<void>;
+
+const handleProductWebhook: WebhookJobHandler = (job, admin) =>
+  processProductWebhook({
+    shopDomain: job.shopDomain,
+    topic: job.topic,
+    payload: job.payload as unknown as ProductWebhookPayload,
+    admin,
+  });
+
+const handleProductDeleteWebhook: WebhookJobHandler = (job) =>
+  processProductDeleteWebhook({
+    shopDomain: job.shopDomain,
+    payload: job.payload as unknown as ProductDeleteWebhookPayload,
+  });
+
+const handleInventoryLevelWebhook: WebhookJobHandler = (job, admin) =>
+  processInventoryLevelWebhook({
+    shopDomain: job.shopDomain,
+    topic: job.topic,
+    payload: job.payload as unknown as InventoryLevelWebhookPayload,
+    admin,
+  });
+
+// Handlers by webhook topic, as reported by authenticate.webhook.
+const HANDLERS: Record<string, WebhookJobHandler> = {
+  PRODUCTS_CREATE: handleProductWebhook,
+  PRODUCTS_UPDATE: handleProductWebhook,
+  PRODUCTS_DELETE: handleProductDeleteWebhook,
+  INVENTORY_LEVELS_UPDATE: handleInventoryLevelWebhook,
+};
+
+/**
+ * Delay before the next attempt, after the given number of attempts:
+ * 30s, 1m, 2m, … up to an hour.
+ */
+export function getRetryDelayMs(attempts: number): number {
+  return Math.min(
+    BASE_RETRY_DELAY_MS * 2 ** Math.max(0, attempts - 1),
+    MAX_RETRY_DELAY_MS,
+  );
+}
+
+/**
+ * Store a webhook delivery for the worker.
+ */
+export async function enqueueWebhookJob(data: {
+  shopDomain: string;
+  topic: string;
+  webhookId: string | null;
+  payload: unknown;
+}): Promise<WebhookJob> {
+  return prisma.webhookJob.create({
+    data: {
+      shopDomain: data.shopDomain,
+      topic: data.topic,
+      webhookId: data.webhookId,
+      payload: data.payload as Prisma.InputJsonValue,
+    },
+  });
+}
+
+/**
+ * Handle a webhook delivery verified by authenticate.webhook: drop it if it
+ * is a duplicate, otherwise store it as a job, and acknowledge it either way.
+ * Takes the authenticated context rather than the request, so the worker
+ * scripts that import this module don't load the app configuration.
+ */
+export async function acceptWebhook(webhook: {
+  shop: string;
+  topic: string;
+  webhookId: string;
+  payload: unknown;
+}): Promise<Response> {
+  const { shop, topic, webhookId, payload } = webhook;
+
+  console.log(`Received ${topic} webhook for ${shop}`);
+
+  if (!(await claimWebhook({ webhookId, shopDomain: shop, topic }))) {
+    console.log(`Skipping duplicate ${topic} webhook ${webhookId} for ${shop}`);
+    await incrementWebhookMetric(shop, "duplicate_skipped");
+    return new Response(null, { status: 200 });
+  }
+
+  try {
+    await enqueueWebhookJob({ shopDomain: shop, topic, webhookId, payload });
+  } catch (error) {
+    // Let Shopify's retry of this delivery through.
+    await releaseWebhook(webhookId);
+    throw error;
+  }
+
+  return new Response(null, { status: 200 });
+}
+
+/**
+ * Claim the next due job, or an abandoned one, and count the attempt.
+ * Jobs locked by another worker's claim are skipped rather than waited on.
+ */
+export async function claimNextWebhookJob(
+  now: Date = new Date(),
+): Promise<WebhookJob | null> {
+  const lockedBefore = new Date(now.getTime() - LOCK_TIMEOUT_MS);
+
+  const [job] = await prisma.$queryRaw<WebhookJob[]>`
+    UPDATE "webhook_jobs"
+    SET "status" = 'processing',
+        "lockedAt" = ${now},
+        "attempts" = "attempts" + 1,
+        "updatedAt" = ${now}
+    WHERE "id" = (
+      SELECT "id" FROM "webhook_jobs"
+      WHERE ("status" = 'pending' AND "runAt" <= ${now})
+         OR ("status" = 'processing' AND "lockedAt" < ${lockedBefore})
+      ORDER BY "runAt"
+      LIMIT 1
+      FOR UPDATE SKIP LOCKED
+    )
+    RETURNING *`;
+
+  return job ?? null;
+}
+
+async function completeWebhookJob(job: WebhookJob): Promise<void> {
+  await prisma.webhookJob.update({
+    where: { id: job.id },
+    data: { status: "completed", lockedAt: null, completedAt: new Date() },
+  });
+}
+
+async function failWebhookJob(job: WebhookJob, error: unknown): Promise<void> {
+  const dead = job.attempts >= MAX_ATTEMPTS;
+
+  await prisma.webhookJob.update({
+    where: { id: job.id },
+    data: {
+      status: dead ? "dead" : "pending",
+      lockedAt: null,
+      lastError: error instanceof Error ? error.message : String(error),
+      runAt: dead
+        ? job.runAt
+        : new Date(Date.now() + getRetryDelayMs(job.attempts)),
+    },
+  });
+}
+
+/**
+ * Refresh the job's lock until the returned function is called.
+ */
+function keepJobLocked(job: WebhookJob): () => void {
+  const timer = setInterval(() => {
+    prisma.webhookJob
+      .updateMany({
+        where: { id: job.id, status: "processing" },
+        data: { lockedAt: new Date() },
+      })
+      .catch((error) => {
+        console.warn(
+          `Failed to refresh the lock of webhook job ${job.id}:`,
+          error,
+        );
+      });
+  }, LOCK_REFRESH_INTERVAL_MS);
+
+  return () => clearInterval(timer);
+}
+
+async function getAdminForShop(
+  shopDomain: string,
+): Promise<AdminContext | null> {
+  const session = await getShopSession(shopDomain);
+  return session ? createAdminClient(shopDomain, session.accessToken) : null;
+}
+
+/**
+ * Claim and process one job.
+ * Returns the job with its outcome, or null if no job is due.
+ * Processing errors are recorded on the job rather than thrown.
+ */
+export async function runNextWebhookJob(): Promise<{
+  job: WebhookJob;
+  status: WebhookJobStatus;
+} | null> {
+  const job = await claimNextWebhookJob();
+  if (!job) return null;
+
+  const unlock = keepJobLocked(job);
+  try {
+    const handler = HANDLERS[job.topic];
+    if (!handler) {
+      throw new Error(`No handler for webhook topic ${job.topic}`);
+    }
+
+    await handler(job, await getAdminForShop(job.shopDomain));
+    await completeWebhookJob(job);
+    return { job, status: "completed" };
+  } catch (error) {
+    console.error(
+      `Webhook job ${job.id} (${job.topic}) failed on attempt ${job.attempts}:`,
+      error,
+    );
+    await failWebhookJob(job, error);
+    return { job, status: job.attempts >= MAX_ATTEMPTS ? "dead" : "pending" };
+  } finally {
+    unlock();
+  }
+}
+
+/**
+ * Put dead jobs back in the queue with a fresh set of attempts.
+ * Without a jobId, every dead job of the shop is requeued.
+ * Returns the number of jobs requeued.
+ */
+export async function requeueWebhookJobs(
+  shopDomain: string,
+  jobId?: string,
+): Promise<number> {
+  const { count } = await prisma.webhookJob.updateMany({
+    where: { shopDomain, status: "dead", ...(jobId ? { id: jobId } : {}) },
+    data: { status: "pending", attempts: 0, runAt: new Date() },
+  });
+
+  return count;
+}
+
+/**
+ * Number of jobs per status for a shop.
+ */
+export async function getWebhookJobCounts(
+  shopDomain: string,
+): Promise<Record<WebhookJobStatus, number>> {
+  const groups = await prisma.webhookJob.groupBy({
+    by: ["status"],
+    where: { shopDomain },
+    _count: { _all: true },
+  });
+
+  const counts = { pending: 0, processing: 0, completed: 0, dead: 0 };
+  for (const group of groups) {
+    counts[group.status as WebhookJobStatus] = group._count._all;
+  }
+
+  return counts;
+}
+
+/**
+ * One page of a shop's jobs, newest first, optionally by status.
+ */
+export async function getWebhookJobsForShop(
+  shopDomain: string,
+  status: WebhookJobStatus | null,
+  page: number,
+): Promise<{ jobs: WebhookJob[]; hasNextPage: boolean }> {
+  const jobs = await prisma.webhookJob.findMany({
+    where: { shopDomain, ...(status ? { status } : {}) },
+    orderBy: { createdAt: "desc" },
+    skip: (page - 1) * JOBS_PAGE_SIZE,
+    // One extra row tells us whether there is a next page.
+    take: JOBS_PAGE_SIZE + 1,
+  });
+
+  return {
+    jobs: jobs.slice(0, JOBS_PAGE_SIZE),
+    hasNextPage: jobs.length > JOBS_PAGE_SIZE,
+  };
+}
+
+/**
+ * Delete completed jobs past the retention limit, for all shops.
+ * Dead jobs are kept until they are requeued.
+ * Returns the number of jobs deleted.
+ */
+export async function pruneWebhookJobs(
+  now: Date = new Date(),
+): Promise<number> {
+  const { count } = await prisma.webhookJob.deleteMany({
+    where: {
+      status: "completed",
+      completedAt: {
+        lt: new Date(
+          now.getTime() - COMPLETED_JOB_RETENTION_DAYS * 24 * 60 * 60 * 1000,
+        ),
+      },
+    },
+  });
+
+  return count;
+}
@@ -0,0 +1,65 @@
+import prisma from "../db.server";
+
+/**
+ * Webhook metrics.
+ * Daily per-shop counters of webhook work skipped as unnecessary: echoes of
+ * the app's own product updates, duplicate deliveries and stale payloads.
+ */
+
+export type WebhookMetricName =
+  | "echo_skipped"
+  | "duplicate_skipped"
+  | "stale_skipped";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Daily rows are keyed by UTC date.
+function startOfDay(date: Date): Date {
+  return new Date(Math.floor(date.getTime() / DAY_MS) * DAY_MS);
+}
+
+/**
+ * Count one occurrence.
+ * Failures are logged, not thrown: metrics must never fail a webhook.
+ */
+export async function incrementWebhookMetric(
+  shopDomain: string,
+  name: WebhookMetricName,
+  now: Date = new Date(),
+): Promise<void> {
+  const day = startOfDay(now);
+
+  try {
+    await prisma.webhookMetric.upsert({
+      where: { shopDomain_day_name: { shopDomain, day, name } },
+      create: { shopDomain, day, name, count: 1 },
+      update: { count: { increment: 1 } },
+    });
+  } catch (error) {
+    console.warn(`Failed to record webhook metric ${name}:`, error);
+  }
+}
+
+/**
+ * Totals per metric over the last `days` days, today included.
+ */
+export async function getWebhookMetricTotals(
+  shopDomain: string,
+  days: number,
+  now: Date = new Date(),
+): Promise<Record<WebhookMetricName, number>> {
+  const since = new Date(startOfDay(now).getTime() - (days - 1) * DAY_MS);
+
+  const groups = await prisma.webhookMetric.groupBy({
+    by: ["name"],
+    where: { shopDomain, day: { gte: since } },
+    _sum: { count: true },
+  });
+
+  const totals = { echo_skipped: 0, duplicate_skipped: 0, stale_skipped: 0 };
+  for (const group of groups) {
+    totals[group.name as WebhookMetricName] = group._sum.count ?? 0;
+  }
+
+  return totals;
+}
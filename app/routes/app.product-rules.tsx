@@ -4,75 +4,358 @@ import type {
   HeadersFunction,
   LoaderFunctionArgs,
 } from "react-router";
-import { useFetcher, useLoaderData, redirect } from "react-router";
+import {
+  useFetcher,
+  useLoaderData,
+  useRevalidator,
+  redirect,
+} from "react-router";
 import { useAppBridge } from "@shopify/app-bridge-react";
 import { boundary } from "@shopify/shopify-app-react-router/server";
 
 import { authenticate } from "../shopify.server";
 import prisma from "../db.server";
-import type { RuleField, RuleOperator } from "../lib/productRules.server";
 import {
   createRuleForShop,
+  deleteRuleForShop,
   getRulesForShop,
+  reorderRulesForShop,
   toggleRuleEnabled,
+  updateRuleForShop,
 } from "../lib/productRules.server";
+import {
+  previewRuleForShop,
+  type RulePreview,
+} from "../lib/rulePreview.server";
+import {
+  getLatestRuleRunJob,
+  isRuleRunJobResumable,
+  isRuleRunJobStalled,
+  resumeRuleRunJob,
+  runRuleRunJob,
+  startRuleRunJob,
+} from "../lib/ruleRunJobs.server";
+import {
+  importRulesForShop,
+  parseRuleFile,
+  planRuleImport,
+  type RuleImportPlan,
+} from "../lib/ruleTransfer.server";
+import {
+  getChangedBy,
+  getDeletedRuleVersions,
+} from "../lib/ruleVersions.server";
+import { analyzeRules, type RuleFinding } from "../lib/ruleAnalysis";
+import {
+  findTestProducts,
+  parseSampleProduct,
+  testRulesForShop,
+  type RuleTestReport,
+  type SampleProduct,
+  type SampleVariant,
+  type TestProductOption,
+} from "../lib/ruleTester.server";
+import {
+  getRuleScheduleState,
+  type RuleScheduleState,
+} from "../lib/ruleScheduleState";
+import { getRuleStatsForShop } from "../lib/ruleStats.server";
+import { syncShopDetails } from "../lib/shop.server";
+import type {
+  MetafieldValueType,
+  RuleAction,
+  RuleActionType,
+} from "../lib/ruleActions";
+import {
+  METAFIELD_VALUE_TYPES,
+  RULE_ACTION_TYPES,
+  createRuleAction,
+  describeRuleAction,
+  parseRuleActions,
+  validateRuleActions,
+} from "../lib/ruleActions";
+import type {
+  RuleCondition,
+  RuleConditionGroup,
+  RuleConditionNode,
+  RuleField,
+  RuleOperator,
+  RuleValidationOptions,
+  VariantMode,
+} from "../lib/ruleConditions";
+import {
+  compileRuleExpression,
+  formatRuleExpression,
+  type RuleExpressionError,
+} from "../lib/ruleExpression";
+import { validateTagTemplate } from "../lib/tagTemplates";
+import {
+  MAX_CONDITION_DEPTH,
+  RULE_FIELDS,
+  RULE_OPERATORS,
+  VARIANT_MODES,
+  describeRuleConditions,
+  getDefaultVariantMode,
+  getOperatorsForField,
+  parseRuleConditions,
+  validateRuleConditions,
+} from "../lib/ruleConditions";
+import {
+  DEFAULT_TIME_ZONE,
+  describeTimeWindow,
+  isValidTimeZone,
+  utcToZonedTime,
+  zonedTimeToUtc,
+} from "../lib/timeZones";
 
 type RuleRow = {
   id: string;
-  field: RuleField;
-  operator: RuleOperator;
-  value: string;
+  summary: string;
+  conditions: RuleConditionGroup;
   tag: string;
+  syncTag: boolean;
+  actions: RuleAction[];
+  actionsSummary: string;
   enabled: boolean;
+  exclusiveGroup: string | null;
+  stopProcessing: boolean;
+  // Schedule times as datetime-local values in the shop's time zone.
+  startsAt: string | null;
+  endsAt: string | null;
+  scheduleSummary: string | null;
+  scheduleState: RuleScheduleState | null;
+  stats: RuleStatsRow;
   createdAt: string;
 };
 
+type RuleStatsRow = {
+  currentMatches: number;
+  tagsAdded7d: number;
+  tagsAdded30d: number;
+  lastMatchedAt: string | null;
+  lastAddedAt: string | null;
+};
+
+type DeletedRuleRow = {
+  ruleId: string;
+  summary: string;
+  tag: string;
+  deletedAt: string;
+  deletedBy: string | null;
+};
+
+type RunRow = {
+  id: string;
+  status: "running" | "stalled" | "completed" | "failed";
+  totalProducts: number;
+  processed: number;
+  changed: number;
+  failed: number;
+  error: string | null;
+  resumable: boolean;
+  finishedAt: string | null;
+};
+
 type LoaderData = {
   shopId: string;
+  currencyCode: string | null;
+  timeZone: string;
   rules: RuleRow[];
+  findings: RuleFinding[];
+  deletedRules: DeletedRuleRow[];
+  run: RunRow | null;
 };
 
 type ActionData = {
   error?: string;
   ok?: boolean;
+  message?: string;
+  preview?: RulePreview;
+  importPlan?: RuleImportPlan;
+  testReport?: RuleTestReport;
+  testProducts?: TestProductOption[];
 };
 
 export const loader = async ({ request }: LoaderFunctionArgs) => {
-  const { session } = await authenticate.admin(request);
+  const { session, admin } = await authenticate.admin(request);
 
   const shop = await prisma.shop.findUnique({
     where: { shopDomain: session.shop },
-    select: { id: true },
+    select: { id: true, currencyCode: true, timezone: true },
   });
 
   if (!shop) {
     throw new Response("Shop not found", { status: 404 });
   }
 
+  // Shops installed before the currency and time zone were stored pick
+  // them up here.
+  const details =
+    shop.currencyCode && shop.timezone
+      ? null
+      : await syncShopDetails(session.shop, admin);
+  const currencyCode = shop.currencyCode ?? details?.currencyCode ?? null;
+  const timeZone = getTimeZone(shop.timezone ?? details?.timezone ?? null);
+
   const rules = await getRulesForShop(shop.id);
+  const job = await getLatestRuleRunJob(shop.id);
+  const stats = await getRuleStatsForShop(shop.id);
+  const deletedVersions = await getDeletedRuleVersions(shop.id);
 
   const data: LoaderData = {
     shopId: shop.id,
+    currencyCode,
+    timeZone,
     rules: rules.map((rule) => ({
       id: rule.id,
-      field: rule.field as RuleField,
-      operator: rule.operator as RuleOperator,
-      value: rule.value,
+      summary: describeRuleConditions(rule.conditions),
+      conditions: rule.conditions,
       tag: rule.tag,
+      syncTag: rule.syncTag,
+      actions: rule.actions,
+      actionsSummary: rule.actions.map(describeRuleAction).join(", "),
       enabled: rule.enabled,
+      exclusiveGroup: rule.exclusiveGroup,
+      stopProcessing: rule.stopProcessing,
+      startsAt: rule.startsAt && utcToZonedTime(rule.startsAt, timeZone),
+      endsAt: rule.endsAt && utcToZonedTime(rule.endsAt, timeZone),
+      scheduleSummary:
+        rule.startsAt || rule.endsAt
+          ? describeTimeWindow(rule.startsAt, rule.endsAt, timeZone)
+          : null,
+      scheduleState: getRuleScheduleState(rule),
+      stats: {
+        currentMatches: stats[rule.id]?.currentMatches ?? 0,
+        tagsAdded7d: stats[rule.id]?.tagsAdded7d ?? 0,
+        tagsAdded30d: stats[rule.id]?.tagsAdded30d ?? 0,
+        lastMatchedAt: stats[rule.id]?.lastMatchedAt?.toISOString() ?? null,
+        lastAddedAt: stats[rule.id]?.lastAddedAt?.toISOString() ?? null,
+      },
       createdAt: rule.createdAt.toISOString(),
     })),
+    findings: analyzeRules(rules, { currencyCode }),
+    deletedRules: deletedVersions.map((version) => ({
+      ruleId: version.ruleId,
+      summary: describeRuleConditions(version.snapshot.conditions),
+      tag: version.snapshot.tag,
+      deletedAt: version.createdAt.toISOString(),
+      deletedBy: version.changedBy,
+    })),
+    run: job && {
+      id: job.id,
+      status: isRuleRunJobStalled(job)
+        ? "stalled"
+        : (job.status as RunRow["status"]),
+      totalProducts: job.totalProducts,
+      processed: job.processed,
+      changed: job.changed,
+      failed: job.failed,
+      error: job.error,
+      resumable: isRuleRunJobResumable(job),
+      finishedAt: job.finishedAt?.toISOString() ?? null,
+    },
   };
 
   return data;
 };
 
+// Shops whose time zone isn't known (or isn't supported) use UTC.
+function getTimeZone(timezone: string | null): string {
+  return timezone && isValidTimeZone(timezone) ? timezone : DEFAULT_TIME_ZONE;
+}
+
+/**
+ * Read the optional schedule of a rule. Times are entered in the shop's
+ * time zone and stored in UTC.
+ */
+function readRuleSchedule(
+  formData: FormData,
+  timeZone: string,
+): { startsAt: Date | null; endsAt: Date | null; error?: string } {
+  const read = (name: string) => {
+    const value = String(formData.get(name) ?? "").trim();
+    return value ? zonedTimeToUtc(value, timeZone) : null;
+  };
+  const startsAt = read("startsAt");
+  const endsAt = read("endsAt");
+
+  if (
+    (formData.get("startsAt") && !startsAt) ||
+    (formData.get("endsAt") && !endsAt)
+  ) {
+    return { startsAt, endsAt, error: "Enter a valid date and time." };
+  }
+  if (startsAt && endsAt && endsAt <= startsAt) {
+    return {
+      startsAt,
+      endsAt,
+      error: "The end time must be after the start time.",
+    };
+  }
+
+  return { startsAt, endsAt };
+}
+
+/**
+ * Read the rule editor fields shared by the create and preview intents.
+ * Conditions or actions are null if their JSON is missing or malformed.
+ * When the advanced editor was used, conditions are compiled from the
+ * submitted expression instead, and `error` explains why it didn't compile.
+ */
+function readRuleForm(
+  formData: FormData,
+  options: RuleValidationOptions,
+): {
+  tag: string;
+  syncTag: boolean;
+  conditions: RuleConditionGroup | null;
+  actions: RuleAction[] | null;
+  error?: string;
+} {
+  const tag = String(formData.get("tag") ?? "").trim();
+  const syncTag = formData.get("syncTag") === "true";
+  const expression = formData.get("expression");
+  try {
+    const actions = parseRuleActions(
+      JSON.parse(String(formData.get("actions") ?? "[]")),
+    );
+
+    if (typeof expression === "string") {
+      const compiled = compileRuleExpression(expression, options);
+      return compiled.ok
+        ? { tag, syncTag, conditions: compiled.value, actions }
+        : {
+            tag,
+            syncTag,
+            conditions: null,
+            actions,
+            error: formatExpressionError(compiled.error),
+          };
+    }
+
+    return {
+      tag,
+      syncTag,
+      conditions: parseRuleConditions(
+        JSON.parse(String(formData.get("conditions") ?? "null")),
+      ),
+      actions,
+    };
+  } catch {
+    return { tag, syncTag, conditions: null, actions: null };
+  }
+}
+
+function formatExpressionError(error: RuleExpressionError): string {
+  return `Column ${error.column}: ${error.message}`;
+}
+
 export const action = async ({ request }: ActionFunctionArgs) => {
-  const { session } = await authenticate.admin(request);
+  const { session, admin, sessionToken } = await authenticate.admin(request);
 
   const shop = await prisma.shop.findUnique({
     where: { shopDomain: session.shop },
-    select: { id: true },
+    select: { id: true, currencyCode: true, timezone: true },
   });
 
   if (!shop) {
@@ -81,33 +364,223 @@ export const action = async ({ request }: ActionFunctionArgs) => {
 
   const formData = await request.formData();
   const intent = formData.get("_intent");
+  const changedBy = getChangedBy({ session, sessionToken });
+  const validationOptions = { currencyCode: shop.currencyCode };
 
-  if (intent === "create") {
-    const field = formData.get("field") as RuleField | null;
-    const operator = formData.get("operator") as RuleOperator | null;
-    const value = String(formData.get("value") ?? "").trim();
-    const tag = String(formData.get("tag") ?? "").trim();
+  if (intent === "create" || intent === "update") {
+    const { tag, syncTag, conditions, actions, error } = readRuleForm(
+      formData,
+      validationOptions,
+    );
 
-    if (!field || !operator || value.length === 0 || tag.length === 0) {
+    if (error) {
+      return { error };
+    }
+
+    if (!conditions || !actions || tag.length === 0) {
       return { error: "All fields are required." };
     }
 
+    const validationError =
+      validateRuleConditions(conditions, validationOptions) ??
+      validateTagTemplate(tag) ??
+      validateRuleActions(actions);
+    if (validationError) {
+      return { error: validationError };
+    }
+
+    const exclusiveGroup =
+      String(formData.get("exclusiveGroup") ?? "").trim() || null;
+    const stopProcessing = formData.get("stopProcessing") === "true";
+    const schedule = readRuleSchedule(formData, getTimeZone(shop.timezone));
+    if (schedule.error) {
+      return { error: schedule.error };
+    }
+    const { startsAt, endsAt } = schedule;
+
+    if (intent === "update") {
+      const ruleId = String(formData.get("ruleId") ?? "");
+      const enabled = formData.get("enabled") !== "false";
+      try {
+        const updated = await updateRuleForShop(
+          shop.id,
+          ruleId,
+          {
+            conditions,
+            tag,
+            syncTag,
+            actions,
+            enabled,
+            exclusiveGroup,
+            stopProcessing,
+            startsAt,
+            endsAt,
+          },
+          changedBy,
+        );
+        if (!updated) {
+          return { error: "Rule not found." };
+        }
+
+        return { ok: true, message: "Rule saved" };
+      } catch (error) {
+        console.error("Error updating rule:", error);
+        return { error: "Failed to save rule. Please try again." };
+      }
+    }
+
     try {
-      await createRuleForShop(shop.id, {
-        field,
-        operator,
-        value,
-        tag,
-        enabled: true,
-      });
-
-      return { ok: true };
+      await createRuleForShop(
+        shop.id,
+        {
+          conditions,
+          tag,
+          syncTag,
+          actions,
+          enabled: true,
+          exclusiveGroup,
+          stopProcessing,
+          startsAt,
+          endsAt,
+        },
+        changedBy,
+      );
+
+      return { ok: true, message: "Rule created successfully" };
     } catch (error) {
       console.error("Error creating rule:", error);
       return { error: "Failed to create rule. Please try again." };
     }
   }
 
+  if (intent === "preview") {
+    const { tag, conditions, error } = readRuleForm(
+      formData,
+      validationOptions,
+    );
+    const page = Math.max(1, Number(formData.get("page")) || 1);
+
+    if (error) {
+      return { error };
+    }
+
+    if (!conditions || tag.length === 0) {
+      return { error: "Add conditions and a tag to preview the rule." };
+    }
+
+    const validationError =
+      validateRuleConditions(conditions, validationOptions) ??
+      validateTagTemplate(tag);
+    if (validationError) {
+      return { error: validationError };
+    }
+
+    const preview = await previewRuleForShop(
+      shop.id,
+      { conditions, tag },
+      page,
+    );
+    return { preview };
+  }
+
+  if (intent === "reorder") {
+    let ruleIds: unknown;
+    try {
+      ruleIds = JSON.parse(String(formData.get("ruleIds") ?? "null"));
+    } catch {
+      ruleIds = null;
+    }
+
+    if (
+      !Array.isArray(ruleIds) ||
+      ruleIds.some((id) => typeof id !== "string")
+    ) {
+      return { error: "Invalid rule order." };
+    }
+
+    try {
+      await reorderRulesForShop(shop.id, ruleIds as string[]);
+      return { ok: true, message: "Rule order saved" };
+    } catch (error) {
+      console.error("Error reordering rules:", error);
+      return { error: "Failed to save the rule order. Please try again." };
+    }
+  }
+
+  if (intent === "testRules") {
+    let sample: SampleProduct | null = null;
+    try {
+      sample = parseSampleProduct(
+        JSON.parse(String(formData.get("sample") ?? "null")),
+      );
+    } catch {
+      sample = null;
+    }
+
+    if (!sample) {
+      return { error: "Invalid sample product." };
+    }
+
+    const testReport = await testRulesForShop(shop.id, sample);
+    return { testReport };
+  }
+
+  if (intent === "findTestProducts") {
+    const testProducts = await findTestProducts(
+      shop.id,
+      String(formData.get("query") ?? ""),
+    );
+    return { testProducts };
+  }
+
+  if (intent === "reviewImport" || intent === "import") {
+    const content = String(formData.get("content") ?? "");
+    const format = formData.get("format") === "csv" ? "csv" : "json";
+    const mode = formData.get("mode") === "replace" ? "replace" : "merge";
+
+    const { rules: imported, errors } = parseRuleFile(
+      content,
+      format,
+      validationOptions,
+    );
+    if (errors.length > 0 || intent === "reviewImport") {
+      const changes =
+        errors.length > 0 ? [] : await planRuleImport(shop.id, imported, mode);
+      return { importPlan: { errors, changes } };
+    }
+
+    try {
+      await importRulesForShop(shop.id, imported, mode, changedBy);
+      return { ok: true, message: `Imported ${imported.length} rules` };
+    } catch (error) {
+      console.error("Error importing rules:", error);
+      return { error: "Failed to import rules. Please try again." };
+    }
+  }
+
+  if (intent === "run" || intent === "resumeRun") {
+    const job =
+      intent === "run"
+        ? await startRuleRunJob(shop.id)
+        : await resumeRuleRunJob(shop.id, String(formData.get("jobId") ?? ""));
+
+    if (!job) {
+      return {
+        error:
+          intent === "run"
+            ? "A run is already in progress."
+            : "This run can't be resumed.",
+      };
+    }
+
+    // Runs outside the request; the page polls the job for progress and it
+    // can be resumed from its cursor if the server stops mid-run.
+    runRuleRunJob(job, admin).catch((error) => {
+      console.error(`Rule run ${job.id} failed:`, error);
+    });
+    return { ok: true };
+  }
+
   if (intent === "toggle") {
     const ruleId = String(formData.get("ruleId") ?? "");
     const enabled = formData.get("enabled") === "true";
@@ -116,31 +589,930 @@ export const action = async ({ request }: ActionFunctionArgs) => {
       return { error: "Missing rule id." };
     }
 
-    await toggleRuleEnabled(shop.id, ruleId, enabled);
+    await toggleRuleEnabled(shop.id, ruleId, enabled, changedBy);
     // Same pattern: refresh rules list after toggle.
     throw redirect("/app/product-rules");
   }
 
+  if (intent === "delete") {
+    const ruleId = String(formData.get("ruleId") ?? "");
+
+    if (!ruleId) {
+      return { error: "Missing rule id." };
+    }
+
+    const deleted = await deleteRuleForShop(shop.id, ruleId, changedBy);
+    if (!deleted) {
+      return { error: "Rule not found." };
+    }
+
+    return { ok: true, message: "Rule deleted" };
+  }
+
   return { ok: false };
 };
 
+const selectStyle = {
+  minWidth: 120,
+  width: "100%",
+  padding: "8px 12px",
+  borderRadius: "4px",
+  border: "1px solid #8c9196",
+  fontSize: "14px",
+  backgroundColor: "white",
+};
+
+const SCHEDULE_STATE_LABELS: Record<RuleScheduleState, string> = {
+  scheduled: "Scheduled",
+  active: "Active",
+  ended: "Ended",
+};
+
+const RUN_STATUS_LABELS: Record<RunRow["status"], string> = {
+  running: "Running",
+  stalled: "Interrupted",
+  completed: "Completed",
+  failed: "Failed",
+};
+
+function createCondition(): RuleCondition {
+  return { type: "condition", field: "price", operator: "gt", value: "" };
+}
+
+function createGroup(): RuleConditionGroup {
+  return { type: "group", combinator: "and", conditions: [createCondition()] };
+}
+
+const VALUE_PLACEHOLDERS: Partial<Record<RuleOperator, string>> = {
+  between: "min,max",
+  in: "A,B,C",
+  matches: "^SKU-[0-9]+$",
+};
+
+function ConditionRow({
+  condition,
+  onChange,
+  onRemove,
+}: {
+  condition: RuleCondition;
+  onChange: (condition: RuleCondition) => void;
+  onRemove?: () => void;
+}) {
+  const operators = getOperatorsForField(condition.field);
+  const defaultVariantMode = getDefaultVariantMode(condition.field);
+
+  const handleFieldChange = (field: RuleField) => {
+    const allowed = getOperatorsForField(field);
+    onChange({
+      ...condition,
+      field,
+      // Keep the operator if it still applies to the new field.
+      operator: allowed.includes(condition.operator)
+        ? condition.operator
+        : allowed[0],
+      variantMode: getDefaultVariantMode(field)
+        ? condition.variantMode
+        : undefined,
+    });
+  };
+
+  return (
+    <s-stack direction="inline" gap="base">
+      <label style={{ display: "flex", alignItems: "center", gap: 4 }}>
+        <input
+          type="checkbox"
+          checked={condition.negate ?? false}
+          onChange={(event) =>
+            onChange({ ...condition, negate: event.currentTarget.checked })
+          }
+        />
+        Not
+      </label>
+
+      <select
+        aria-label="Field"
+        value={condition.field}
+        onChange={(event) =>
+          handleFieldChange(event.currentTarget.value as RuleField)
+        }
+        style={{ ...selectStyle, minWidth: 160, width: "auto" }}
+      >
+        {RULE_FIELDS.map((entry) => (
+          <option key={entry.value} value={entry.value}>
+            {entry.label}
+          </option>
+        ))}
+      </select>
+
+      {defaultVariantMode && (
+        <select
+          aria-label="Variants"
+          value={condition.variantMode ?? defaultVariantMode}
+          onChange={(event) =>
+            onChange({
+              ...condition,
+              variantMode: event.currentTarget.value as VariantMode,
+            })
+          }
+          style={{ ...selectStyle, width: "auto" }}
+        >
+          {VARIANT_MODES.map((entry) => (
+            <option key={entry.value} value={entry.value}>
+              {entry.label}
+            </option>
+          ))}
+        </select>
+      )}
+
+      <select
+        aria-label="Operator"
+        value={condition.operator}
+        onChange={(event) =>
+          onChange({
+            ...condition,
+            operator: event.currentTarget.value as RuleOperator,
+          })
+        }
+        style={{ ...selectStyle, width: "auto" }}
+      >
+        {RULE_OPERATORS.filter((entry) => operators.includes(entry.value)).map(
+          (entry) => (
+            <option key={entry.value} value={entry.value}>
+              {entry.label}
+            </option>
+          ),
+        )}
+      </select>
+
+      <s-text-field
+        label="Value"
+        labelAccessibilityVisibility="exclusive"
+        value={condition.value}
+        placeholder={VALUE_PLACEHOLDERS[condition.operator]}
+        onChange={(event: Event) =>
+          onChange({
+            ...condition,
+            value: (event.currentTarget as HTMLInputElement).value,
+          })
+        }
+        autocomplete="off"
+      />
+
+      {onRemove && (
+        <s-button variant="tertiary" onClick={onRemove}>
+          Remove
+        </s-button>
+      )}
+    </s-stack>
+  );
+}
+
+function ConditionGroupEditor({
+  group,
+  depth,
+  onChange,
+  onRemove,
+}: {
+  group: RuleConditionGroup;
+  depth: number;
+  onChange: (group: RuleConditionGroup) => void;
+  onRemove?: () => void;
+}) {
+  const updateChild = (index: number, node: RuleConditionNode) =>
+    onChange({
+      ...group,
+      conditions: group.conditions.map((child, i) =>
+        i === index ? node : child,
+      ),
+    });
+
+  const removeChild = (index: number) =>
+    onChange({
+      ...group,
+      conditions: group.conditions.filter((_, i) => i !== index),
+    });
+
+  const addChild = (node: RuleConditionNode) =>
+    onChange({ ...group, conditions: [...group.conditions, node] });
+
+  // The last remaining condition of the top-level group can't be removed.
+  const canRemoveChild = depth > 1 || group.conditions.length > 1;
+
+  return (
+    <s-box padding="base" borderWidth="base" borderRadius="base">
+      <s-stack direction="block" gap="base">
+        <s-stack direction="inline" gap="base">
+          <select
+            aria-label="Match"
+            value={group.combinator}
+            onChange={(event) =>
+              onChange({
+                ...group,
+                combinator: event.currentTarget.value as "and" | "or",
+              })
+            }
+            style={{ ...selectStyle, width: "auto" }}
+          >
+            <option value="and">All of (AND)</option>
+            <option value="or">Any of (OR)</option>
+          </select>
+          {onRemove && (
+            <s-button variant="tertiary" onClick={onRemove}>
+              Remove group
+            </s-button>
+          )}
+        </s-stack>
+
+        {group.conditions.map((node, index) =>
+          node.type === "group" ? (
+            <ConditionGroupEditor
+              key={index}
+              group={node}
+              depth={depth + 1}
+              onChange={(updated) => updateChild(index, updated)}
+              onRemove={() => removeChild(index)}
+            />
+          ) : (
+            <ConditionRow
+              key={index}
+              condition={node}
+              onChange={(updated) => updateChild(index, updated)}
+              onRemove={canRemoveChild ? () => removeChild(index) : undefined}
+            />
+          ),
+        )}
+
+        <s-stack direction="inline" gap="base">
+          <s-button onClick={() => addChild(createCondition())}>
+            Add condition
+          </s-button>
+          {depth < MAX_CONDITION_DEPTH && (
+            <s-button onClick={() => addChild(createGroup())}>
+              Add group
+            </s-button>
+          )}
+        </s-stack>
+      </s-stack>
+    </s-box>
+  );
+}
+
+function ActionRow({
+  action,
+  onChange,
+  onRemove,
+}: {
+  action: RuleAction;
+  onChange: (action: RuleAction) => void;
+  onRemove: () => void;
+}) {
+  const label =
+    RULE_ACTION_TYPES.find((entry) => entry.value === action.type)?.label ??
+    action.type;
+  const inputValue = (event: Event) =>
+    (event.currentTarget as HTMLInputElement).value;
+
+  return (
+    <s-stack direction="inline" gap="base">
+      <s-text>{label}</s-text>
+
+      {action.type === "setMetafield" && (
+        <>
+          <s-text-field
+            label="Namespace"
+            value={action.namespace}
+            onChange={(event: Event) =>
+              onChange({ ...action, namespace: inputValue(event) })
+            }
+            autocomplete="off"
+          />
+          <s-text-field
+            label="Key"
+            value={action.key}
+            onChange={(event: Event) =>
+              onChange({ ...action, key: inputValue(event) })
+            }
+            autocomplete="off"
+          />
+          <select
+            aria-label="Metafield type"
+            value={action.valueType}
+            onChange={(event) =>
+              onChange({
+                ...action,
+                valueType: event.currentTarget.value as MetafieldValueType,
+              })
+            }
+            style={{ ...selectStyle, width: "auto" }}
+          >
+            {METAFIELD_VALUE_TYPES.map((entry) => (
+              <option key={entry.value} value={entry.value}>
+                {entry.label}
+              </option>
+            ))}
+          </select>
+          <s-text-field
+            label="Value"
+            value={action.value}
+            onChange={(event: Event) =>
+              onChange({ ...action, value: inputValue(event) })
+            }
+            autocomplete="off"
+          />
+        </>
+      )}
+
+      {action.type === "setProductType" && (
+        <s-text-field
+          label="Product type"
+          value={action.productType}
+          onChange={(event: Event) =>
+            onChange({ ...action, productType: inputValue(event) })
+          }
+          autocomplete="off"
+        />
+      )}
+
+      {action.type === "addToCollection" && (
+        <s-text-field
+          label="Collection ID"
+          value={action.collectionId}
+          placeholder="123456789"
+          details="Only manual collections accept products."
+          onChange={(event: Event) =>
+            onChange({ ...action, collectionId: inputValue(event) })
+          }
+          autocomplete="off"
+        />
+      )}
+
+      {action.type === "setTemplateSuffix" && (
+        <s-text-field
+          label="Template suffix"
+          value={action.templateSuffix}
+          details="Leave empty to use the default product template."
+          onChange={(event: Event) =>
+            onChange({ ...action, templateSuffix: inputValue(event) })
+          }
+          autocomplete="off"
+        />
+      )}
+
+      <s-button variant="tertiary" onClick={onRemove}>
+        Remove
+      </s-button>
+    </s-stack>
+  );
+}
+
+function ActionListEditor({
+  actions,
+  onChange,
+}: {
+  actions: RuleAction[];
+  onChange: (actions: RuleAction[]) => void;
+}) {
+  const [newType, setNewType] = useState<RuleActionType>("setMetafield");
+
+  return (
+    <s-stack direction="block" gap="base">
+      {actions.map((action, index) => (
+        <ActionRow
+          key={index}
+          action={action}
+          onChange={(updated) =>
+            onChange(actions.map((entry, i) => (i === index ? updated : entry)))
+          }
+          onRemove={() => onChange(actions.filter((_, i) => i !== index))}
+        />
+      ))}
+
+      <s-stack direction="inline" gap="base">
+        <select
+          aria-label="Action type"
+          value={newType}
+          onChange={(event) =>
+            setNewType(event.currentTarget.value as RuleActionType)
+          }
+          style={{ ...selectStyle, width: "auto" }}
+        >
+          {RULE_ACTION_TYPES.map((entry) => (
+            <option key={entry.value} value={entry.value}>
+              {entry.label}
+            </option>
+          ))}
+        </select>
+        <s-button
+          onClick={() => onChange([...actions, createRuleAction(newType)])}
+        >
+          Add action
+        </s-button>
+      </s-stack>
+    </s-stack>
+  );
+}
+
+const IMPORT_CHANGE_LABELS: Record<
+  RuleImportPlan["changes"][number]["change"],
+  string
+> = {
+  added: "Add",
+  updated: "Update",
+  removed: "Delete",
+  unchanged: "No change",
+};
+
+const EMPTY_SAMPLE_VARIANT: SampleVariant = {
+  price: "",
+  compareAtPrice: "",
+  sku: "",
+  inventoryQuantity: "",
+  weight: "",
+};
+
+const EMPTY_SAMPLE_PRODUCT: SampleProduct = {
+  title: "",
+  vendor: "",
+  productType: "",
+  status: "active",
+  handle: "",
+  tags: "",
+  variants: [EMPTY_SAMPLE_VARIANT],
+};
+
+const SAMPLE_PRODUCT_FIELDS: Array<{
+  key: Exclude<keyof SampleProduct, "status" | "variants">;
+  label: string;
+}> = [
+  { key: "title", label: "Title" },
+  { key: "vendor", label: "Vendor" },
+  { key: "productType", label: "Product type" },
+  { key: "handle", label: "Handle" },
+  { key: "tags", label: "Tags (comma-separated)" },
+];
+
+const SAMPLE_VARIANT_FIELDS: Array<{
+  key: keyof SampleVariant;
+  label: string;
+}> = [
+  { key: "price", label: "Price" },
+  { key: "compareAtPrice", label: "Compare-at price" },
+  { key: "sku", label: "SKU" },
+  { key: "inventoryQuantity", label: "Inventory" },
+  { key: "weight", label: "Weight (g)" },
+];
+
+// Re-run the tester this long after the last edit.
+const TEST_DELAY_MS = 400;
+
+/**
+ * Run the saved rules against a sample product and show, per rule, whether
+ * it matched and which conditions failed. Re-runs as the sample is edited
+ * and when the rules change.
+ */
+function RuleTesterSection({ rules }: { rules: RuleRow[] }) {
+  const testFetcher = useFetcher<ActionData>();
+  const searchFetcher = useFetcher<ActionData>();
+  const [sample, setSample] = useState<SampleProduct>(EMPTY_SAMPLE_PRODUCT);
+  const [query, setQuery] = useState("");
+
+  const inputValue = (event: Event) =>
+    (event.currentTarget as HTMLInputElement).value;
+  const report = testFetcher.data?.testReport;
+  const products = searchFetcher.data?.testProducts;
+
+  useEffect(() => {
+    if (rules.length === 0) return;
+
+    const timeout = setTimeout(() => {
+      const formData = new FormData();
+      formData.append("_intent", "testRules");
+      formData.append("sample", JSON.stringify(sample));
+      testFetcher.submit(formData, { method: "post" });
+    }, TEST_DELAY_MS);
+
+    return () => clearTimeout(timeout);
+    // eslint-disable-next-line react-hooks/exhaustive-deps -- submit is stable
+  }, [sample, rules]);
+
+  const handleSearch = () => {
+    const formData = new FormData();
+    formData.append("_intent", "findTestProducts");
+    formData.append("query", query);
+    searchFetcher.submit(formData, { method: "post" });
+  };
+
+  const updateVariant = (index: number, variant: SampleVariant) =>
+    setSample({
+      ...sample,
+      variants: sample.variants.map((entry, i) =>
+        i === index ? variant : entry,
+      ),
+    });
+
+  if (rules.length === 0) return null;
+
+  return (
+    <s-section heading="Test rules">
+      <s-stack direction="block" gap="base">
+        <s-paragraph>
+          Enter a sample product, or load a synced one, to see which rules match
+          it and why. Nothing is saved or changed in Shopify.
+        </s-paragraph>
+
+        <s-stack direction="inline" gap="base">
+          <s-text-field
+            label="Load a synced product"
+            placeholder="Search by title"
+            value={query}
+            onChange={(event: Event) => setQuery(inputValue(event))}
+            autocomplete="off"
+          />
+          <s-button
+            onClick={handleSearch}
+            loading={searchFetcher.state !== "idle"}
+          >
+            Search
+          </s-button>
+        </s-stack>
+
+        {products && products.length === 0 && (
+          <s-text tone="neutral">No synced products found.</s-text>
+        )}
+        {products && products.length > 0 && (
+          <s-stack direction="inline" gap="small">
+            {products.map((product) => (
+              <s-button
+                key={product.id}
+                variant="tertiary"
+                onClick={() => setSample(product.sample)}
+              >
+                {product.title}
+              </s-button>
+            ))}
+          </s-stack>
+        )}
+
+        <s-stack direction="inline" gap="base">
+          {SAMPLE_PRODUCT_FIELDS.map(({ key, label }) => (
+            <s-text-field
+              key={key}
+              label={label}
+              value={sample[key]}
+              onChange={(event: Event) =>
+                setSample({ ...sample, [key]: inputValue(event) })
+              }
+              autocomplete="off"
+            />
+          ))}
+          <select
+            aria-label="Status"
+            value={sample.status}
+            onChange={(event) =>
+              setSample({ ...sample, status: event.currentTarget.value })
+            }
+            style={{ ...selectStyle, width: "auto" }}
+          >
+            <option value="active">Active</option>
+            <option value="draft">Draft</option>
+            <option value="archived">Archived</option>
+          </select>
+        </s-stack>
+
+        {sample.variants.map((variant, index) => (
+          <s-stack key={index} direction="inline" gap="base">
+            {SAMPLE_VARIANT_FIELDS.map(({ key, label }) => (
+              <s-text-field
+                key={key}
+                label={`Variant ${index + 1} ${label.toLowerCase()}`}
+                value={variant[key]}
+                onChange={(event: Event) =>
+                  updateVariant(index, { ...variant, [key]: inputValue(event) })
+                }
+                autocomplete="off"
+              />
+            ))}
+            {sample.variants.length > 1 && (
+              <s-button
+                variant="tertiary"
+                tone="critical"
+                onClick={() =>
+                  setSample({
+                    ...sample,
+                    variants: sample.variants.filter((_, i) => i !== index),
+                  })
+                }
+              >
+                Remove
+              </s-button>
+            )}
+          </s-stack>
+        ))}
+
+        <s-stack direction="inline" gap="base">
+          <s-button
+            onClick={() =>
+              setSample({
+                ...sample,
+                variants: [...sample.variants, EMPTY_SAMPLE_VARIANT],
+              })
+            }
+          >
+            Add variant
+          </s-button>
+          <s-button
+            variant="tertiary"
+            onClick={() => setSample(EMPTY_SAMPLE_PRODUCT)}
+          >
+            Clear
+          </s-button>
+        </s-stack>
+
+        {report && (
+          <s-stack direction="block" gap="base">
+            <s-paragraph>
+              {report.tagsToAdd.length > 0
+                ? `Tags that would be added: ${report.tagsToAdd.join(", ")}`
+                : "No new tags would be added."}
+            </s-paragraph>
+            <s-table loading={testFetcher.state !== "idle"}>
+              <s-table-header-row>
+                <s-table-header listSlot="primary">Tag</s-table-header>
+                <s-table-header>Conditions</s-table-header>
+                <s-table-header>Result</s-table-header>
+                <s-table-header>Why</s-table-header>
+              </s-table-header-row>
+              <s-table-body>
+                {report.results.map((result) => (
+                  <s-table-row key={result.ruleId}>
+                    <s-table-cell>{result.tag}</s-table-cell>
+                    <s-table-cell>{result.summary}</s-table-cell>
+                    <s-table-cell>
+                      {result.skipped ? (
+                        <s-text tone="neutral">Skipped</s-text>
+                      ) : (
+                        <s-text tone={result.matched ? "success" : "critical"}>
+                          {result.matched ? "Matched" : "No match"}
+                        </s-text>
+                      )}
+                      {!result.enabled && " (rule disabled)"}
+                    </s-table-cell>
+                    <s-table-cell>
+                      <s-stack direction="block">
+                        {result.skipped ? (
+                          <s-text>{result.skipped}</s-text>
+                        ) : result.matched ? (
+                          <s-text>
+                            {result.renderedTag
+                              ? `Adds "${result.renderedTag}"`
+                              : "The tag template had nothing to fill in, so no tag is added."}
+                          </s-text>
+                        ) : (
+                          result.failedConditions.map((failed, index) => (
+                            <s-text key={index}>
+                              {failed.description} failed: product has{" "}
+                              {failed.actual}
+                            </s-text>
+                          ))
+                        )}
+                      </s-stack>
+                    </s-table-cell>
+                  </s-table-row>
+                ))}
+              </s-table-body>
+            </s-table>
+          </s-stack>
+        )}
+      </s-stack>
+    </s-section>
+  );
+}
+
+function ImportExportSection() {
+  const fetcher = useFetcher<ActionData>();
+  const shopify = useAppBridge();
+  const [file, setFile] = useState<{ name: string; content: string } | null>(
+    null,
+  );
+  const [mode, setMode] = useState<"merge" | "replace">("merge");
+
+  const plan = fetcher.data?.importPlan;
+
+  useEffect(() => {
+    if (fetcher.data?.ok) {
+      shopify.toast.show(fetcher.data.message ?? "Rules imported");
+      setFile(null);
+    }
+    if (fetcher.data?.error) {
+      shopify.toast.show(fetcher.data.error, { isError: true });
+    }
+  }, [fetcher.data, shopify]);
+
+  const handleExport = async (format: "json" | "csv") => {
+    // fetch (rather than a link) so App Bridge adds the session token.
+    const response = await fetch(`/app/product-rules/export?format=${format}`);
+    if (!response.ok) {
+      shopify.toast.show("Export failed. Please try again.", { isError: true });
+      return;
+    }
+
+    const url = URL.createObjectURL(await response.blob());
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `product-rules.${format}`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const submitImport = (intent: "reviewImport" | "import") => {
+    if (!file) return;
+    const formData = new FormData();
+    formData.append("_intent", intent);
+    formData.append("content", file.content);
+    formData.append(
+      "format",
+      file.name.toLowerCase().endsWith(".csv") ? "csv" : "json",
+    );
+    formData.append("mode", mode);
+    fetcher.submit(formData, { method: "post" });
+  };
+
+  const hasChanges =
+    plan?.changes.some((entry) => entry.change !== "unchanged") ?? false;
+
+  return (
+    <s-section heading="Import and export">
+      <s-stack direction="block" gap="base">
+        <s-stack direction="inline" gap="base">
+          <s-button onClick={() => handleExport("json")}>Export JSON</s-button>
+          <s-button onClick={() => handleExport("csv")}>Export CSV</s-button>
+        </s-stack>
+
+        <s-stack direction="inline" gap="base">
+          <input
+            type="file"
+            accept=".json,.csv"
+            aria-label="Rules file"
+            onChange={async (event) => {
+              const selected = event.currentTarget.files?.[0];
+              setFile(
+                selected
+                  ? { name: selected.name, content: await selected.text() }
+                  : null,
+              );
+            }}
+          />
+          <select
+            aria-label="Import mode"
+            value={mode}
+            onChange={(event) =>
+              setMode(event.currentTarget.value as "merge" | "replace")
+            }
+            style={{ ...selectStyle, width: "auto" }}
+          >
+            <option value="merge">Merge with existing rules</option>
+            <option value="replace">Replace existing rules</option>
+          </select>
+          <s-button
+            onClick={() => submitImport("reviewImport")}
+            disabled={!file}
+            loading={fetcher.state !== "idle"}
+          >
+            Review import
+          </s-button>
+        </s-stack>
+
+        {plan && plan.errors.length > 0 && (
+          <s-stack direction="block">
+            <s-text tone="critical">
+              The file has errors. Nothing was imported.
+            </s-text>
+            {plan.errors.map((error) => (
+              <s-text key={`${error.row}:${error.message}`} tone="critical">
+                {error.row > 0 ? `Row ${error.row}: ` : ""}
+                {error.message}
+              </s-text>
+            ))}
+          </s-stack>
+        )}
+
+        {plan && plan.errors.length === 0 && (
+          <s-stack direction="block" gap="base">
+            <s-table>
+              <s-table-header-row>
+                <s-table-header listSlot="primary">Tag</s-table-header>
+                <s-table-header>Conditions</s-table-header>
+                <s-table-header>Change</s-table-header>
+                <s-table-header>Details</s-table-header>
+              </s-table-header-row>
+              <s-table-body>
+                {plan.changes.map((entry, index) => (
+                  <s-table-row key={index}>
+                    <s-table-cell>{entry.tag}</s-table-cell>
+                    <s-table-cell>{entry.summary}</s-table-cell>
+                    <s-table-cell>
+                      {IMPORT_CHANGE_LABELS[entry.change]}
+                    </s-table-cell>
+                    <s-table-cell>
+                      {entry.details.join("; ") || "—"}
+                    </s-table-cell>
+                  </s-table-row>
+                ))}
+              </s-table-body>
+            </s-table>
+            <s-button
+              variant="primary"
+              onClick={() => submitImport("import")}
+              disabled={!hasChanges}
+              loading={fetcher.state !== "idle"}
+            >
+              {mode === "replace" ? "Replace rules" : "Import rules"}
+            </s-button>
+          </s-stack>
+        )}
+      </s-stack>
+    </s-section>
+  );
+}
+
+/**
+ * Match statistics of a rule. Counts are kept up to date as products are
+ * evaluated, so they don't reflect rule edits until products are evaluated
+ * again (e.g. with "Run on all products").
+ */
+function RuleActivity({
+  stats,
+  enabled,
+}: {
+  stats: RuleStatsRow;
+  enabled: boolean;
+}) {
+  const formatDate = (value: string | null) =>
+    value ? new Date(value).toLocaleString() : "never";
+
+  return (
+    <s-stack direction="block">
+      <s-text>
+        {enabled
+          ? `${stats.currentMatches} ${stats.currentMatches === 1 ? "product matches" : "products match"}`
+          : "Disabled"}
+      </s-text>
+      <s-text tone="neutral">
+        Tag added {stats.tagsAdded7d}× in 7 days, {stats.tagsAdded30d}× in 30
+        days
+      </s-text>
+      <s-text tone="neutral">
+        Last matched {formatDate(stats.lastMatchedAt)}, last added{" "}
+        {formatDate(stats.lastAddedAt)}
+      </s-text>
+    </s-stack>
+  );
+}
+
 export default function ProductRulesPage() {
-  const { rules } = useLoaderData() as LoaderData;
+  const { rules, findings, deletedRules, run, currencyCode, timeZone } =
+    useLoaderData() as LoaderData;
   const fetcher = useFetcher<typeof action>();
+  const previewFetcher = useFetcher<ActionData>();
+  const runFetcher = useFetcher<ActionData>();
+  const { revalidate } = useRevalidator();
   const shopify = useAppBridge();
 
-  const [field, setField] = useState<RuleField>("price");
-  const [operator, setOperator] = useState<RuleOperator>("gt");
-  const [value, setValue] = useState("");
+  const [conditions, setConditions] = useState<RuleConditionGroup>(createGroup);
   const [tag, setTag] = useState("");
+  const [syncTag, setSyncTag] = useState(false);
+  const [exclusiveGroup, setExclusiveGroup] = useState("");
+  const [stopProcessing, setStopProcessing] = useState(false);
+  const [startsAt, setStartsAt] = useState("");
+  const [endsAt, setEndsAt] = useState("");
+  const [actions, setActions] = useState<RuleAction[]>([]);
+  // Rule being edited in the form; null when adding a new rule.
+  const [editingRule, setEditingRule] = useState<RuleRow | null>(null);
+  // Advanced editor: conditions typed as an expression instead of the form.
+  const [advanced, setAdvanced] = useState(false);
+  const [expression, setExpression] = useState("");
+  const [expressionError, setExpressionError] =
+    useState<RuleExpressionError | null>(null);
+
+  const resetForm = () => {
+    setConditions(createGroup());
+    setExpression("");
+    setExpressionError(null);
+    setTag("");
+    setSyncTag(false);
+    setExclusiveGroup("");
+    setStopProcessing(false);
+    setStartsAt("");
+    setEndsAt("");
+    setActions([]);
+    setEditingRule(null);
+  };
 
   // Show toast on success/error
   useEffect(() => {
     if (fetcher.data?.ok) {
-      shopify.toast.show("Rule created successfully");
-      // Reset form
-      setValue("");
-      setTag("");
+      shopify.toast.show(fetcher.data.message ?? "Rule created successfully");
+      resetForm();
       // Reload the page data
       fetcher.load("/app/product-rules");
     }
@@ -152,10 +1524,87 @@ export default function ProductRulesPage() {
   const handleSubmit = (e: React.FormEvent<HTMLFormElement>) => {
     e.preventDefault();
     const formData = new FormData(e.currentTarget);
-    formData.append("_intent", "create");
+    formData.append("_intent", editingRule ? "update" : "create");
+    if (editingRule) {
+      formData.append("ruleId", editingRule.id);
+      formData.append("enabled", String(editingRule.enabled));
+    }
+    formData.append("conditions", JSON.stringify(conditions));
+    if (advanced) formData.append("expression", expression);
+    formData.set("syncTag", String(syncTag));
+    formData.set("exclusiveGroup", exclusiveGroup);
+    formData.set("stopProcessing", String(stopProcessing));
+    formData.set("startsAt", startsAt);
+    formData.set("endsAt", endsAt);
+    formData.append("actions", JSON.stringify(actions));
     fetcher.submit(formData, { method: "post" });
   };
 
+  const handleEdit = (rule: RuleRow) => {
+    setConditions(rule.conditions);
+    setExpression(formatRuleExpression(rule.conditions));
+    setExpressionError(null);
+    setTag(rule.tag);
+    setSyncTag(rule.syncTag);
+    setExclusiveGroup(rule.exclusiveGroup ?? "");
+    setStopProcessing(rule.stopProcessing);
+    setStartsAt(rule.startsAt ?? "");
+    setEndsAt(rule.endsAt ?? "");
+    setActions(rule.actions);
+    setEditingRule(rule);
+  };
+
+  // Deletes have their own fetcher, so deleting a rule from the list
+  // doesn't reset an edit in progress.
+  const deleteFetcher = useFetcher<ActionData>();
+
+  useEffect(() => {
+    if (deleteFetcher.data?.ok) {
+      shopify.toast.show(deleteFetcher.data.message ?? "Rule deleted");
+    }
+    if (deleteFetcher.data?.error) {
+      shopify.toast.show(deleteFetcher.data.error, { isError: true });
+    }
+  }, [deleteFetcher.data, shopify]);
+
+  const handleDelete = (rule: RuleRow) => {
+    const tagsNote =
+      rule.syncTag || rule.endsAt
+        ? "The tags it added are removed from products the next time rules run."
+        : "The tags it added stay on products.";
+    if (
+      !window.confirm(`Delete the rule that adds "${rule.tag}"? ${tagsNote}`)
+    ) {
+      return;
+    }
+    // The rule being edited is gone, so its edit can't be saved.
+    if (editingRule?.id === rule.id) resetForm();
+    const formData = new FormData();
+    formData.append("_intent", "delete");
+    formData.append("ruleId", rule.id);
+    deleteFetcher.submit(formData, { method: "post" });
+  };
+
+  const handleAdvancedToggle = () => {
+    if (!advanced) {
+      setExpression(formatRuleExpression(conditions));
+      setExpressionError(null);
+    }
+    setAdvanced(!advanced);
+  };
+
+  const handleExpressionChange = (value: string) => {
+    setExpression(value);
+    const compiled = compileRuleExpression(value, { currencyCode });
+    if (compiled.ok) {
+      // Keep the form editor in sync with the last valid expression.
+      setConditions(compiled.value);
+      setExpressionError(null);
+    } else {
+      setExpressionError(compiled.error);
+    }
+  };
+
   const handleToggle = (ruleId: string, enabled: boolean) => {
     const formData = new FormData();
     formData.append("_intent", "toggle");
@@ -164,121 +1613,445 @@ export default function ProductRulesPage() {
     fetcher.submit(formData, { method: "post" });
   };
 
-  const isSubmitting = fetcher.state === "submitting" || fetcher.state === "loading";
+  // Order shown while a reorder is being saved; cleared once the loader
+  // returns the saved order.
+  const reorderFetcher = useFetcher<ActionData>();
+  const [pendingOrder, setPendingOrder] = useState<string[] | null>(null);
+  const [draggedRuleId, setDraggedRuleId] = useState<string | null>(null);
+
+  useEffect(() => {
+    setPendingOrder(null);
+  }, [rules]);
+
+  useEffect(() => {
+    if (reorderFetcher.data?.error) {
+      shopify.toast.show(reorderFetcher.data.error, { isError: true });
+      setPendingOrder(null);
+    }
+  }, [reorderFetcher.data, shopify]);
+
+  const orderedRules = pendingOrder
+    ? pendingOrder
+        .map((id) => rules.find((rule) => rule.id === id))
+        .filter((rule): rule is RuleRow => rule != null)
+    : rules;
+
+  const moveRule = (ruleId: string, toIndex: number) => {
+    const ids = orderedRules.map((rule) => rule.id);
+    const fromIndex = ids.indexOf(ruleId);
+    if (fromIndex === -1 || fromIndex === toIndex) return;
+
+    ids.splice(fromIndex, 1);
+    ids.splice(toIndex, 0, ruleId);
+    setPendingOrder(ids);
+
+    const formData = new FormData();
+    formData.append("_intent", "reorder");
+    formData.append("ruleIds", JSON.stringify(ids));
+    reorderFetcher.submit(formData, { method: "post" });
+  };
+
+  // Poll for progress while a run is active.
+  const isRunning = run?.status === "running";
+  useEffect(() => {
+    if (!isRunning) return;
+    const interval = setInterval(revalidate, 3000);
+    return () => clearInterval(interval);
+  }, [isRunning, revalidate]);
+
+  useEffect(() => {
+    if (runFetcher.data?.error) {
+      shopify.toast.show(runFetcher.data.error, { isError: true });
+    }
+  }, [runFetcher.data, shopify]);
+
+  const handleRun = (intent: "run" | "resumeRun") => {
+    const formData = new FormData();
+    formData.append("_intent", intent);
+    if (run) formData.append("jobId", run.id);
+    runFetcher.submit(formData, { method: "post" });
+  };
+
+  const handlePreview = (page: number) => {
+    const formData = new FormData();
+    formData.append("_intent", "preview");
+    formData.append("conditions", JSON.stringify(conditions));
+    if (advanced) formData.append("expression", expression);
+    formData.append("tag", tag);
+    formData.append("page", String(page));
+    previewFetcher.submit(formData, { method: "post" });
+  };
+
+  const isSubmitting =
+    fetcher.state === "submitting" || fetcher.state === "loading";
+  const isPreviewing = previewFetcher.state !== "idle";
+  const preview = previewFetcher.data?.preview;
 
   return (
     <s-page heading="Product rules">
+      <s-button slot="secondary-actions" href="/app/product-rules/templates">
+        Templates
+      </s-button>
+      <s-button slot="secondary-actions" href="/app/product-rules/log">
+        Application log
+      </s-button>
       <s-section heading="Auto Product Tagger rules">
-        <s-card>
-          <s-data-table
-            columnContentTypes={["text", "text", "text", "text", "text"]}
-            headings={["Field", "Operator", "Value", "Tag", "Enabled"]}
-            rows={rules.map((rule) => [
-              rule.field,
-              rule.operator,
-              rule.value,
-              rule.tag,
-              <s-button
-                key={rule.id}
-                size="slim"
-                variant="tertiary"
-                onClick={() => handleToggle(rule.id, rule.enabled)}
-              >
-                {rule.enabled ? "Disable" : "Enable"}
-              </s-button>,
-            ])}
-          />
-          {rules.length === 0 && (
-            <s-box padding="base">
-              <s-text tone="subdued">
-                No rules configured yet. Create your first rule below.
-              </s-text>
-            </s-box>
+        {findings.length > 0 && (
+          <s-banner
+            tone="warning"
+            heading={
+              findings.length === 1
+                ? "1 possible problem with your rules"
+                : `${findings.length} possible problems with your rules`
+            }
+          >
+            <s-unordered-list>
+              {findings.map((finding, index) => (
+                <s-list-item key={index}>{finding.message}</s-list-item>
+              ))}
+            </s-unordered-list>
+          </s-banner>
+        )}
+        {rules.length === 0 ? (
+          <s-paragraph>
+            No rules configured yet. Create your first rule below, or{" "}
+            <s-link href="/app/product-rules/templates">
+              start from a template
+            </s-link>
+            .
+          </s-paragraph>
+        ) : (
+          <s-stack direction="block" gap="base">
+            <s-paragraph>
+              Rules run from top to bottom. Drag a rule by its number, or use
+              the arrows, to change the order.
+            </s-paragraph>
+            <s-table>
+              <s-table-header-row>
+                <s-table-header>Order</s-table-header>
+                <s-table-header listSlot="primary">Conditions</s-table-header>
+                <s-table-header>Tag</s-table-header>
+                <s-table-header>Group</s-table-header>
+                <s-table-header>Schedule</s-table-header>
+                <s-table-header>Activity</s-table-header>
+                <s-table-header>Mode</s-table-header>
+                <s-table-header>Actions</s-table-header>
+                <s-table-header>Enabled</s-table-header>
+                <s-table-header></s-table-header>
+              </s-table-header-row>
+              <s-table-body>
+                {orderedRules.map((rule, index) => (
+                  <s-table-row key={rule.id}>
+                    <s-table-cell>
+                      <s-stack direction="inline" gap="small">
+                        <div
+                          draggable
+                          aria-label={`Drag to reorder rule ${index + 1}`}
+                          onDragStart={() => setDraggedRuleId(rule.id)}
+                          onDragEnd={() => setDraggedRuleId(null)}
+                          onDragOver={(event) => event.preventDefault()}
+                          onDrop={() => {
+                            if (draggedRuleId) moveRule(draggedRuleId, index);
+                          }}
+                          style={{
+                            cursor: "grab",
+                            padding: "4px 8px",
+                            opacity: draggedRuleId === rule.id ? 0.5 : 1,
+                          }}
+                        >
+                          ⋮⋮ {index + 1}
+                        </div>
+                        <s-button
+                          variant="tertiary"
+                          accessibilityLabel="Move up"
+                          disabled={index === 0}
+                          onClick={() => moveRule(rule.id, index - 1)}
+                        >
+                          ↑
+                        </s-button>
+                        <s-button
+                          variant="tertiary"
+                          accessibilityLabel="Move down"
+                          disabled={index === orderedRules.length - 1}
+                          onClick={() => moveRule(rule.id, index + 1)}
+                        >
+                          ↓
+                        </s-button>
+                      </s-stack>
+                    </s-table-cell>
+                    <s-table-cell>{rule.summary}</s-table-cell>
+                    <s-table-cell>{rule.tag}</s-table-cell>
+                    <s-table-cell>
+                      {[
+                        rule.exclusiveGroup,
+                        rule.stopProcessing ? "Stops further rules" : null,
+                      ]
+                        .filter(Boolean)
+                        .join(", ") || "—"}
+                    </s-table-cell>
+                    <s-table-cell>
+                      {rule.scheduleSummary ? (
+                        <s-stack direction="block" gap="small-500">
+                          <s-text>{rule.scheduleSummary}</s-text>
+                          {rule.scheduleState && (
+                            <s-badge
+                              tone={
+                                rule.scheduleState === "active"
+                                  ? "success"
+                                  : rule.scheduleState === "ended"
+                                    ? "neutral"
+                                    : "info"
+                              }
+                            >
+                              {SCHEDULE_STATE_LABELS[rule.scheduleState]}
+                            </s-badge>
+                          )}
+                        </s-stack>
+                      ) : (
+                        "Always"
+                      )}
+                    </s-table-cell>
+                    <s-table-cell>
+                      <RuleActivity stats={rule.stats} enabled={rule.enabled} />
+                    </s-table-cell>
+                    <s-table-cell>
+                      {rule.syncTag ? "Sync" : "Add only"}
+                    </s-table-cell>
+                    <s-table-cell>{rule.actionsSummary || "—"}</s-table-cell>
+                    <s-table-cell>
+                      <s-button
+                        variant="tertiary"
+                        onClick={() => handleToggle(rule.id, rule.enabled)}
+                      >
+                        {rule.enabled ? "Disable" : "Enable"}
+                      </s-button>
+                    </s-table-cell>
+                    <s-table-cell>
+                      <s-stack direction="inline" gap="small">
+                        <s-button
+                          variant="tertiary"
+                          onClick={() => handleEdit(rule)}
+                        >
+                          Edit
+                        </s-button>
+                        <s-button
+                          variant="tertiary"
+                          tone="critical"
+                          onClick={() => handleDelete(rule)}
+                        >
+                          Delete
+                        </s-button>
+                        <s-link href={`/app/product-rules/${rule.id}/history`}>
+                          History
+                        </s-link>
+                        <s-link
+                          href={`/app/product-rules/log?ruleId=${rule.id}`}
+                        >
+                          Log
+                        </s-link>
+                      </s-stack>
+                    </s-table-cell>
+                  </s-table-row>
+                ))}
+              </s-table-body>
+            </s-table>
+          </s-stack>
+        )}
+      </s-section>
+
+      {deletedRules.length > 0 && (
+        <s-section heading="Deleted rules">
+          <s-table>
+            <s-table-header-row>
+              <s-table-header listSlot="primary">Conditions</s-table-header>
+              <s-table-header>Tag</s-table-header>
+              <s-table-header>Deleted</s-table-header>
+              <s-table-header></s-table-header>
+            </s-table-header-row>
+            <s-table-body>
+              {deletedRules.map((rule) => (
+                <s-table-row key={rule.ruleId}>
+                  <s-table-cell>{rule.summary}</s-table-cell>
+                  <s-table-cell>{rule.tag}</s-table-cell>
+                  <s-table-cell>
+                    {new Date(rule.deletedAt).toLocaleString()}
+                    {rule.deletedBy && ` by ${rule.deletedBy}`}
+                  </s-table-cell>
+                  <s-table-cell>
+                    <s-link href={`/app/product-rules/${rule.ruleId}/history`}>
+                      History
+                    </s-link>
+                  </s-table-cell>
+                </s-table-row>
+              ))}
+            </s-table-body>
+          </s-table>
+        </s-section>
+      )}
+
+      <RuleTesterSection rules={rules} />
+
+      <ImportExportSection />
+
+      <s-section heading="Run on all products">
+        <s-stack direction="block" gap="base">
+          <s-paragraph>
+            Rules normally run when a product is created or updated. Run them on
+            every stored product to tag the rest of the catalog.
+          </s-paragraph>
+          {run && (
+            <s-paragraph>
+              {RUN_STATUS_LABELS[run.status]}: {run.processed} of{" "}
+              {run.totalProducts} products processed, {run.changed} changed,{" "}
+              {run.failed} failed.
+              {run.error && ` ${run.error}`}
+            </s-paragraph>
           )}
-        </s-card>
+          <s-stack direction="inline" gap="base">
+            <s-button
+              onClick={() => handleRun("run")}
+              disabled={isRunning}
+              loading={runFetcher.state !== "idle"}
+            >
+              Run on all products
+            </s-button>
+            {run?.resumable && (
+              <s-button onClick={() => handleRun("resumeRun")}>Resume</s-button>
+            )}
+          </s-stack>
+        </s-stack>
       </s-section>
 
-      <s-section heading="Add rule">
+      <s-section heading={editingRule ? "Edit rule" : "Add rule"}>
         <fetcher.Form method="post" onSubmit={handleSubmit}>
           <s-stack direction="block" gap="base">
-            <s-inline-stack gap="base">
-              <s-box>
-                <s-text as="h3" variant="headingSm">
-                  Field
-                </s-text>
-                <select
-                  name="field"
-                  value={field}
-                  onChange={(event) =>
-                    setField(event.currentTarget.value as RuleField)
+            <s-box>
+              <s-stack direction="inline" gap="base">
+                <s-heading>Conditions</s-heading>
+                <s-button variant="tertiary" onClick={handleAdvancedToggle}>
+                  {advanced ? "Use form editor" : "Use advanced editor"}
+                </s-button>
+              </s-stack>
+              {advanced ? (
+                <s-text-area
+                  label="Rule expression"
+                  rows={4}
+                  value={expression}
+                  placeholder='price >= 50 and vendor in ("Nike", "Adidas") and not tags contains "clearance"'
+                  details="Combine conditions with and, or, not and parentheses. Operators: = != > >= < <= between … and …, in (…), contains, startsWith, endsWith, matches. Prefix variant fields with any, all, min, max or avg."
+                  error={
+                    expressionError
+                      ? formatExpressionError(expressionError)
+                      : undefined
                   }
-                  style={{
-                    minWidth: 160,
-                    width: "100%",
-                    padding: "8px 12px",
-                    borderRadius: "4px",
-                    border: "1px solid #8c9196",
-                    fontSize: "14px",
-                    backgroundColor: "white",
-                  }}
-                >
-                  <option value="price">Price</option>
-                  <option value="inventory">Inventory</option>
-                  <option value="vendor">Vendor</option>
-                </select>
-              </s-box>
-
-              <s-box>
-                <s-text as="h3" variant="headingSm">
-                  Operator
-                </s-text>
-                <select
-                  name="operator"
-                  value={operator}
-                  onChange={(event) =>
-                    setOperator(event.currentTarget.value as RuleOperator)
+                  onInput={(event: Event) =>
+                    handleExpressionChange(
+                      (event.currentTarget as HTMLTextAreaElement).value,
+                    )
                   }
-                  style={{
-                    minWidth: 120,
-                    width: "100%",
-                    padding: "8px 12px",
-                    borderRadius: "4px",
-                    border: "1px solid #8c9196",
-                    fontSize: "14px",
-                    backgroundColor: "white",
-                  }}
-                >
-                  <option value="gt">&gt;</option>
-                  <option value="lt">&lt;</option>
-                  <option value="eq">=</option>
-                </select>
-              </s-box>
-
-              <s-text-field
-                name="value"
-                label="Value"
-                value={value}
-                onChange={(event: Event) =>
-                  setValue((event.currentTarget as HTMLInputElement).value)
-                }
-                autoComplete="off"
-              />
-            </s-inline-stack>
+                  autocomplete="off"
+                />
+              ) : (
+                <ConditionGroupEditor
+                  group={conditions}
+                  depth={1}
+                  onChange={setConditions}
+                />
+              )}
+            </s-box>
 
             <s-text-field
               name="tag"
               label="Tag to apply"
+              placeholder="vendor:{{vendor}}"
               value={tag}
               onChange={(event: Event) =>
                 setTag((event.currentTarget as HTMLInputElement).value)
               }
               autoComplete="off"
-              helpText="Tag will be added when the rule matches a product."
+              helpText="Tag will be added when the rule matches a product. Use {{field}} to fill in product values, e.g. price-band:{{price | bucket: 0,25,50,100}}. Filters: bucket, default, slug."
+            />
+
+            <s-checkbox
+              label="Remove the tag when the product stops matching"
+              details="Only tags this app added are removed. Tags added by hand are never touched."
+              checked={syncTag}
+              onChange={(event) => setSyncTag(event.currentTarget.checked)}
+            />
+
+            <s-text-field
+              label="Exclusive group"
+              placeholder="price-tier"
+              value={exclusiveGroup}
+              details="Of the rules in the same group, only the first matching one applies, e.g. budget, mid and premium tiers. Leave empty to always apply."
+              onChange={(event: Event) =>
+                setExclusiveGroup(
+                  (event.currentTarget as HTMLInputElement).value,
+                )
+              }
+              autocomplete="off"
             />
 
+            <s-checkbox
+              label="Stop processing further rules"
+              details="When this rule matches, rules after it are skipped."
+              checked={stopProcessing}
+              onChange={(event) =>
+                setStopProcessing(event.currentTarget.checked)
+              }
+            />
+
+            <s-box>
+              <s-heading>Schedule</s-heading>
+              <s-paragraph>
+                Only apply the rule between these times, in the shop&apos;s time
+                zone ({timeZone}). Leave empty for no limit. Tags the rule added
+                are removed when the schedule ends.
+              </s-paragraph>
+              <s-stack direction="inline" gap="base">
+                <label
+                  style={{ display: "flex", flexDirection: "column", gap: 4 }}
+                >
+                  Starts
+                  <input
+                    type="datetime-local"
+                    value={startsAt}
+                    onChange={(event) => setStartsAt(event.currentTarget.value)}
+                    style={{ ...selectStyle, width: "auto" }}
+                  />
+                </label>
+                <label
+                  style={{ display: "flex", flexDirection: "column", gap: 4 }}
+                >
+                  Ends
+                  <input
+                    type="datetime-local"
+                    value={endsAt}
+                    onChange={(event) => setEndsAt(event.currentTarget.value)}
+                    style={{ ...selectStyle, width: "auto" }}
+                  />
+                </label>
+              </s-stack>
+            </s-box>
+
+            <s-box>
+              <s-heading>Other actions</s-heading>
+              <s-paragraph>
+                Run when the rule matches, alongside adding the tag.
+              </s-paragraph>
+              <ActionListEditor actions={actions} onChange={setActions} />
+            </s-box>
+
             {fetcher.data?.error && (
               <s-text tone="critical">{fetcher.data.error}</s-text>
             )}
+            {previewFetcher.data?.error && (
+              <s-text tone="critical">{previewFetcher.data.error}</s-text>
+            )}
+
+            <s-button onClick={() => handlePreview(1)} loading={isPreviewing}>
+              Preview matches
+            </s-button>
 
             <button
               type="submit"
@@ -294,16 +2067,71 @@ export default function ProductRulesPage() {
                 fontWeight: "500",
               }}
             >
-              {isSubmitting ? "Adding..." : "Add rule"}
+              {editingRule
+                ? isSubmitting
+                  ? "Saving..."
+                  : "Save changes"
+                : isSubmitting
+                  ? "Adding..."
+                  : "Add rule"}
             </button>
+
+            {editingRule && (
+              <s-button variant="tertiary" onClick={resetForm}>
+                Cancel editing
+              </s-button>
+            )}
           </s-stack>
         </fetcher.Form>
       </s-section>
+
+      {preview && (
+        <s-section heading="Preview">
+          <s-stack direction="block" gap="base">
+            <s-paragraph>
+              Matches {preview.totalMatches} of {preview.totalProducts} stored
+              products. The preview uses the products stored by the app and
+              doesn&apos;t change anything in Shopify.
+            </s-paragraph>
+            {preview.matches.length > 0 && (
+              <s-table
+                paginate
+                loading={isPreviewing}
+                hasPreviousPage={preview.page > 1}
+                hasNextPage={
+                  preview.page * preview.pageSize < preview.totalMatches
+                }
+                onPreviousPage={() => handlePreview(preview.page - 1)}
+                onNextPage={() => handlePreview(preview.page + 1)}
+              >
+                <s-table-header-row>
+                  <s-table-header listSlot="primary">Product</s-table-header>
+                  <s-table-header>Current tags</s-table-header>
+                  <s-table-header>Tags to add</s-table-header>
+                </s-table-header-row>
+                <s-table-body>
+                  {preview.matches.map((match) => (
+                    <s-table-row key={match.shopifyProductId}>
+                      <s-table-cell>
+                        {match.title ?? `Product ${match.shopifyProductId}`}
+                      </s-table-cell>
+                      <s-table-cell>
+                        {match.currentTags.join(", ") || "—"}
+                      </s-table-cell>
+                      <s-table-cell>
+                        {match.tagsToAdd.join(", ") || "Already tagged"}
+                      </s-table-cell>
+                    </s-table-row>
+                  ))}
+                </s-table-body>
+              </s-table>
+            )}
+          </s-stack>
+        </s-section>
+      )}
     </s-page>
   );
 }
 
 export const headers: HeadersFunction = (headersArgs) =>
   boundary.headers(headersArgs);
-
-
@@ -0,0 +1,235 @@
+import { useEffect } from "react";
+import type {
+  ActionFunctionArgs,
+  HeadersFunction,
+  LoaderFunctionArgs,
+} from "react-router";
+import { useFetcher, useLoaderData } from "react-router";
+import { useAppBridge } from "@shopify/app-bridge-react";
+import { boundary } from "@shopify/shopify-app-react-router/server";
+
+import { authenticate } from "../shopify.server";
+import prisma from "../db.server";
+import { restoreRuleVersionForShop } from "../lib/productRules.server";
+import {
+  describeRuleChanges,
+  getChangedBy,
+  getRuleVersions,
+  type RuleVersionAction,
+} from "../lib/ruleVersions.server";
+
+type VersionRow = {
+  version: number;
+  action: RuleVersionAction;
+  restoredFromVersion: number | null;
+  changes: string[];
+  changedBy: string | null;
+  createdAt: string;
+  canRestore: boolean;
+};
+
+type LoaderData = {
+  ruleId: string;
+  tag: string;
+  deleted: boolean;
+  versions: VersionRow[];
+};
+
+type ActionData = {
+  error?: string;
+  ok?: boolean;
+};
+
+const ACTION_LABELS: Record<RuleVersionAction, string> = {
+  created: "Created",
+  updated: "Edited",
+  enabled: "Enabled",
+  disabled: "Disabled",
+  deleted: "Deleted",
+  restored: "Restored",
+};
+
+export const loader = async ({ request, params }: LoaderFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+
+  const shop = await prisma.shop.findUnique({
+    where: { shopDomain: session.shop },
+    select: { id: true, timezone: true },
+  });
+
+  if (!shop) {
+    throw new Response("Shop not found", { status: 404 });
+  }
+
+  const ruleId = params.ruleId ?? "";
+  const versions = await getRuleVersions(shop.id, ruleId);
+
+  if (versions.length === 0) {
+    throw new Response("Rule not found", { status: 404 });
+  }
+
+  const [latest] = versions;
+  const deleted = latest.action === "deleted";
+
+  const data: LoaderData = {
+    ruleId,
+    tag: latest.snapshot.tag,
+    deleted,
+    versions: versions.map((version, index) => {
+      const previous = versions[index + 1] ?? null;
+      return {
+        version: version.version,
+        action: version.action,
+        restoredFromVersion: version.restoredFromVersion,
+        changes:
+          version.action === "deleted"
+            ? []
+            : describeRuleChanges(
+                previous?.snapshot ?? null,
+                version.snapshot,
+                shop.timezone ?? undefined,
+              ),
+        changedBy: version.changedBy,
+        createdAt: version.createdAt.toISOString(),
+        // The newest version is the rule as it is now, unless it was deleted
+        // (its snapshot is the rule right before deletion).
+        canRestore: index > 0 || deleted,
+      };
+    }),
+  };
+
+  return data;
+};
+
+export const action = async ({ request, params }: ActionFunctionArgs) => {
+  const { session, sessionToken } = await authenticate.admin(request);
+
+  const shop = await prisma.shop.findUnique({
+    where: { shopDomain: session.shop },
+    select: { id: true },
+  });
+
+  if (!shop) {
+    throw new Response("Shop not found", { status: 404 });
+  }
+
+  const formData = await request.formData();
+  const intent = formData.get("_intent");
+
+  if (intent === "restore") {
+    const version = Number(formData.get("version"));
+
+    if (!Number.isInteger(version)) {
+      return { error: "Missing version." };
+    }
+
+    try {
+      const restored = await restoreRuleVersionForShop(
+        shop.id,
+        params.ruleId ?? "",
+        version,
+        getChangedBy({ session, sessionToken }),
+      );
+      if (!restored) {
+        return { error: "Version not found." };
+      }
+
+      return { ok: true };
+    } catch (error) {
+      console.error("Error restoring rule version:", error);
+      return { error: "Failed to restore rule. Please try again." };
+    }
+  }
+
+  return { ok: false };
+};
+
+export default function ProductRuleHistoryPage() {
+  const { tag, deleted, versions } = useLoaderData() as LoaderData;
+  const fetcher = useFetcher<ActionData>();
+  const shopify = useAppBridge();
+
+  useEffect(() => {
+    if (fetcher.data?.ok) {
+      shopify.toast.show("Rule restored");
+    }
+    if (fetcher.data?.error) {
+      shopify.toast.show(fetcher.data.error, { isError: true });
+    }
+  }, [fetcher.data, shopify]);
+
+  const handleRestore = (version: number) => {
+    const formData = new FormData();
+    formData.append("_intent", "restore");
+    formData.append("version", String(version));
+    fetcher.submit(formData, { method: "post" });
+  };
+
+  return (
+    <s-page heading={`Rule history: ${tag}`}>
+      <s-link slot="breadcrumb-actions" href="/app/product-rules">
+        Product rules
+      </s-link>
+
+      <s-section>
+        <s-stack direction="block" gap="base">
+          {deleted && (
+            <s-paragraph>
+              This rule was deleted. Restore a version to bring it back.
+            </s-paragraph>
+          )}
+
+          <s-table>
+            <s-table-header-row>
+              <s-table-header listSlot="primary">Version</s-table-header>
+              <s-table-header>Change</s-table-header>
+              <s-table-header>Details</s-table-header>
+              <s-table-header>By</s-table-header>
+              <s-table-header>When</s-table-header>
+              <s-table-header></s-table-header>
+            </s-table-header-row>
+            <s-table-body>
+              {versions.map((version) => (
+                <s-table-row key={version.version}>
+                  <s-table-cell>v{version.version}</s-table-cell>
+                  <s-table-cell>
+                    {ACTION_LABELS[version.action]}
+                    {version.restoredFromVersion != null &&
+                      ` from v${version.restoredFromVersion}`}
+                  </s-table-cell>
+                  <s-table-cell>
+                    <s-stack direction="block">
+                      {version.changes.length > 0
+                        ? version.changes.map((change) => (
+                            <s-text key={change}>{change}</s-text>
+                          ))
+                        : "—"}
+                    </s-stack>
+                  </s-table-cell>
+                  <s-table-cell>{version.changedBy ?? "Unknown"}</s-table-cell>
+                  <s-table-cell>
+                    {new Date(version.createdAt).toLocaleString()}
+                  </s-table-cell>
+                  <s-table-cell>
+                    {version.canRestore && (
+                      <s-button
+                        variant="tertiary"
+                        onClick={() => handleRestore(version.version)}
+                        disabled={fetcher.state !== "idle"}
+                      >
+                        Restore
+                      </s-button>
+                    )}
+                  </s-table-cell>
+                </s-table-row>
+              ))}
+            </s-table-body>
+          </s-table>
+        </s-stack>
+      </s-section>
+    </s-page>
+  );
+}
+
+export const headers: HeadersFunction = (headersArgs) =>
+  boundary.headers(headersArgs);
@@ -0,0 +1,36 @@
+import type { LoaderFunctionArgs } from "react-router";
+
+import { authenticate } from "../shopify.server";
+import prisma from "../db.server";
+import { exportRulesForShop } from "../lib/ruleTransfer.server";
+
+/**
+ * Download the shop's rules as JSON (default) or CSV: ?format=csv
+ */
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+
+  const shop = await prisma.shop.findUnique({
+    where: { shopDomain: session.shop },
+    select: { id: true },
+  });
+
+  if (!shop) {
+    throw new Response("Shop not found", { status: 404 });
+  }
+
+  const format =
+    new URL(request.url).searchParams.get("format") === "csv" ? "csv" : "json";
+  const content = await exportRulesForShop(shop.id, format);
+  const filename = `product-rules-${session.shop.replace(/\..*$/, "")}.${format}`;
+
+  return new Response(content, {
+    headers: {
+      "Content-Type":
+        format === "csv"
+          ? "text/csv; charset=utf-8"
+          : "application/json; charset=utf-8",
+      "Content-Disposition": `attachment; filename="${filename}"`,
+    },
+  });
+};
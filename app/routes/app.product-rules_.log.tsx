@@ -0,0 +1,294 @@
+import type { HeadersFunction, LoaderFunctionArgs } from "react-router";
+import { useLoaderData, useSearchParams } from "react-router";
+import { boundary } from "@shopify/shopify-app-react-router/server";
+
+import { authenticate } from "../shopify.server";
+import prisma from "../db.server";
+import { getRulesForShop } from "../lib/productRules.server";
+import type { RuleApplicationResult } from "../lib/ruleApplication.server";
+import {
+  getRuleApplicationLogs,
+  RULE_APPLICATION_LOG_RETENTION_DAYS,
+  type MatchedRule,
+  type RuleApplicationSource,
+} from "../lib/ruleApplicationLog.server";
+
+type LogRow = {
+  id: string;
+  productId: string;
+  productTitle: string;
+  source: RuleApplicationSource;
+  matchedRules: MatchedRule[];
+  added: string[];
+  removed: string[];
+  result: RuleApplicationResult;
+  error: string | null;
+  createdAt: string;
+};
+
+type LoaderData = {
+  entries: LogRow[];
+  rules: Array<{ id: string; tag: string }>;
+  productId: string | null;
+  productTitle: string | null;
+  ruleId: string | null;
+  page: number;
+  hasNextPage: boolean;
+};
+
+const RESULT_LABELS: Record<RuleApplicationResult, string> = {
+  changed: "Updated in Shopify",
+  unchanged: "No change needed",
+  failed: "Failed",
+};
+
+const SOURCE_LABELS: Record<RuleApplicationSource, string> = {
+  webhook: "Product webhook",
+  run: "Rule run",
+  inventory: "Inventory update",
+};
+
+/**
+ * Rule application log: every evaluation of the shop's rules against a
+ * product, filtered by product (?productId=) or by matching rule (?ruleId=).
+ */
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+
+  const shop = await prisma.shop.findUnique({
+    where: { shopDomain: session.shop },
+    select: { id: true },
+  });
+
+  if (!shop) {
+    throw new Response("Shop not found", { status: 404 });
+  }
+
+  const params = new URL(request.url).searchParams;
+  const productParam = params.get("productId") ?? "";
+  const productId = /^\d+$/.test(productParam) ? BigInt(productParam) : null;
+  const ruleId = params.get("ruleId") || null;
+  const page = Math.max(1, Math.floor(Number(params.get("page")) || 1));
+
+  const [log, rules] = await Promise.all([
+    getRuleApplicationLogs(
+      shop.id,
+      { shopifyProductId: productId, ruleId },
+      page,
+    ),
+    getRulesForShop(shop.id),
+  ]);
+
+  const product =
+    productId != null
+      ? await prisma.product.findUnique({
+          where: {
+            shopId_shopifyProductId: {
+              shopId: shop.id,
+              shopifyProductId: productId,
+            },
+          },
+          select: { title: true },
+        })
+      : null;
+
+  const data: LoaderData = {
+    entries: log.entries.map((entry) => {
+      const before = new Set(entry.tagsBefore);
+      const after = new Set(entry.tagsAfter);
+      return {
+        id: entry.id,
+        productId: String(entry.shopifyProductId),
+        productTitle: entry.productTitle ?? `Product ${entry.shopifyProductId}`,
+        source: entry.source,
+        matchedRules: entry.matchedRules,
+        added: entry.tagsAfter.filter((tag) => !before.has(tag)),
+        removed: entry.tagsBefore.filter((tag) => !after.has(tag)),
+        result: entry.result,
+        error: entry.error ?? null,
+        createdAt: entry.createdAt.toISOString(),
+      };
+    }),
+    rules: rules.map((rule) => ({ id: rule.id, tag: rule.tag })),
+    productId: productId != null ? String(productId) : null,
+    productTitle:
+      productId != null ? (product?.title ?? `Product ${productId}`) : null,
+    ruleId,
+    page,
+    hasNextPage: log.hasNextPage,
+  };
+
+  return data;
+};
+
+const selectStyle = {
+  minWidth: 200,
+  padding: "8px 12px",
+  borderRadius: "4px",
+  border: "1px solid #8c9196",
+  fontSize: "14px",
+  backgroundColor: "white",
+};
+
+export default function RuleApplicationLogPage() {
+  const { entries, rules, productId, productTitle, ruleId, page, hasNextPage } =
+    useLoaderData() as LoaderData;
+  const [searchParams, setSearchParams] = useSearchParams();
+
+  // Changing a filter starts again at the first page.
+  const setFilter = (name: string, value: string | null) => {
+    const next = new URLSearchParams(searchParams);
+    if (value) next.set(name, value);
+    else next.delete(name);
+    next.delete("page");
+    setSearchParams(next);
+  };
+
+  const setPage = (value: number) => {
+    const next = new URLSearchParams(searchParams);
+    next.set("page", String(value));
+    setSearchParams(next);
+  };
+
+  const ruleTag = (id: string) =>
+    rules.find((rule) => rule.id === id)?.tag ?? null;
+
+  return (
+    <s-page heading="Rule application log">
+      <s-link slot="breadcrumb-actions" href="/app/product-rules">
+        Product rules
+      </s-link>
+
+      <s-section>
+        <s-stack direction="block" gap="base">
+          <s-paragraph>
+            Every time the rules are applied to a product, by a product webhook,
+            an inventory update or a rule run, the rules that matched and the
+            tag changes are recorded here. Entries are kept for{" "}
+            {RULE_APPLICATION_LOG_RETENTION_DAYS} days.
+          </s-paragraph>
+
+          <s-stack direction="inline" gap="base">
+            <select
+              aria-label="Rule"
+              value={ruleId ?? ""}
+              onChange={(event) =>
+                setFilter("ruleId", event.currentTarget.value || null)
+              }
+              style={selectStyle}
+            >
+              <option value="">All rules</option>
+              {ruleId && !ruleTag(ruleId) && (
+                <option value={ruleId}>Deleted rule</option>
+              )}
+              {rules.map((rule) => (
+                <option key={rule.id} value={rule.id}>
+                  {rule.tag}
+                </option>
+              ))}
+            </select>
+
+            {productId && (
+              <s-stack direction="inline" gap="small">
+                <s-text>Product: {productTitle}</s-text>
+                <s-button
+                  variant="tertiary"
+                  onClick={() => setFilter("productId", null)}
+                >
+                  Show all products
+                </s-button>
+              </s-stack>
+            )}
+          </s-stack>
+
+          {entries.length === 0 ? (
+            <s-paragraph>No entries match these filters.</s-paragraph>
+          ) : (
+            <s-table>
+              <s-table-header-row>
+                <s-table-header listSlot="primary">Product</s-table-header>
+                <s-table-header>Matched rules</s-table-header>
+                <s-table-header>Tags added</s-table-header>
+                <s-table-header>Tags removed</s-table-header>
+                <s-table-header>Result</s-table-header>
+                <s-table-header>Source</s-table-header>
+                <s-table-header>When</s-table-header>
+              </s-table-header-row>
+              <s-table-body>
+                {entries.map((entry) => (
+                  <s-table-row key={entry.id}>
+                    <s-table-cell>
+                      <s-button
+                        variant="tertiary"
+                        onClick={() => setFilter("productId", entry.productId)}
+                      >
+                        {entry.productTitle}
+                      </s-button>
+                    </s-table-cell>
+                    <s-table-cell>
+                      {entry.matchedRules.length > 0 ? (
+                        <s-stack direction="block">
+                          {entry.matchedRules.map((rule) => (
+                            <s-text key={rule.ruleId}>
+                              {rule.tag}
+                              {ruleTag(rule.ruleId) == null && " (deleted)"}
+                            </s-text>
+                          ))}
+                        </s-stack>
+                      ) : (
+                        "—"
+                      )}
+                    </s-table-cell>
+                    <s-table-cell>{entry.added.join(", ") || "—"}</s-table-cell>
+                    <s-table-cell>
+                      {entry.removed.join(", ") || "—"}
+                    </s-table-cell>
+                    <s-table-cell>
+                      <s-stack direction="block">
+                        <s-badge
+                          tone={
+                            entry.result === "failed"
+                              ? "critical"
+                              : entry.result === "changed"
+                                ? "success"
+                                : "neutral"
+                          }
+                        >
+                          {RESULT_LABELS[entry.result]}
+                        </s-badge>
+                        {entry.error && (
+                          <s-text tone="critical">{entry.error}</s-text>
+                        )}
+                      </s-stack>
+                    </s-table-cell>
+                    <s-table-cell>{SOURCE_LABELS[entry.source]}</s-table-cell>
+                    <s-table-cell>
+                      {new Date(entry.createdAt).toLocaleString()}
+                    </s-table-cell>
+                  </s-table-row>
+                ))}
+              </s-table-body>
+            </s-table>
+          )}
+
+          {(page > 1 || hasNextPage) && (
+            <s-stack direction="inline" gap="base">
+              <s-button disabled={page <= 1} onClick={() => setPage(page - 1)}>
+                Newer
+              </s-button>
+              <s-button
+                disabled={!hasNextPage}
+                onClick={() => setPage(page + 1)}
+              >
+                Older
+              </s-button>
+            </s-stack>
+          )}
+        </s-stack>
+      </s-section>
+    </s-page>
+  );
+}
+
+export const headers: HeadersFunction = (headersArgs) =>
+  boundary.headers(headersArgs);
@@ -0,0 +1,339 @@
+import { useEffect, useState } from "react";
+import type {
+  ActionFunctionArgs,
+  HeadersFunction,
+  LoaderFunctionArgs,
+} from "react-router";
+import { useFetcher, useLoaderData, useNavigate } from "react-router";
+import { useAppBridge } from "@shopify/app-bridge-react";
+import { boundary } from "@shopify/shopify-app-react-router/server";
+
+import { authenticate } from "../shopify.server";
+import prisma from "../db.server";
+import { createRuleForShop } from "../lib/productRules.server";
+import { describeRuleConditions } from "../lib/ruleConditions";
+import { previewRuleSetForShop } from "../lib/rulePreview.server";
+import {
+  buildRuleTemplate,
+  getRuleTemplates,
+  type RuleTemplate,
+} from "../lib/ruleTemplates.server";
+import { getChangedBy } from "../lib/ruleVersions.server";
+import {
+  DEFAULT_TIME_ZONE,
+  describeTimeWindow,
+  isValidTimeZone,
+} from "../lib/timeZones";
+
+type TemplateRuleRow = {
+  tag: string;
+  summary: string;
+  details: string[];
+  totalMatches: number;
+  examples: string[];
+};
+
+type TemplatePreview = {
+  templateId: string;
+  rules: TemplateRuleRow[];
+  totalProducts: number;
+};
+
+type LoaderData = {
+  templates: RuleTemplate[];
+};
+
+type ActionData = {
+  error?: string;
+  ok?: boolean;
+  message?: string;
+  preview?: TemplatePreview;
+};
+
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  await authenticate.admin(request);
+
+  const data: LoaderData = { templates: getRuleTemplates() };
+  return data;
+};
+
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { session, sessionToken } = await authenticate.admin(request);
+
+  const shop = await prisma.shop.findUnique({
+    where: { shopDomain: session.shop },
+    select: { id: true, currencyCode: true, timezone: true },
+  });
+
+  if (!shop) {
+    throw new Response("Shop not found", { status: 404 });
+  }
+
+  const formData = await request.formData();
+  const intent = formData.get("_intent");
+  const templateId = String(formData.get("templateId") ?? "");
+
+  let values: Record<string, string> = {};
+  try {
+    const parsed = JSON.parse(String(formData.get("values") ?? "{}"));
+    if (parsed && typeof parsed === "object") {
+      values = Object.fromEntries(
+        Object.entries(parsed as Record<string, unknown>).map(
+          ([name, value]) => [name, typeof value === "string" ? value : ""],
+        ),
+      );
+    }
+  } catch {
+    return { error: "Invalid template parameters." };
+  }
+
+  // Rules are always rebuilt from the parameters, so what is created is
+  // exactly what was previewed.
+  const built = buildRuleTemplate(templateId, values, {
+    currencyCode: shop.currencyCode,
+  });
+  if ("error" in built) {
+    return { error: built.error };
+  }
+
+  if (intent === "preview") {
+    const timeZone =
+      shop.timezone && isValidTimeZone(shop.timezone)
+        ? shop.timezone
+        : DEFAULT_TIME_ZONE;
+    const preview = await previewRuleSetForShop(shop.id, built.rules);
+
+    return {
+      preview: {
+        templateId,
+        totalProducts: preview.totalProducts,
+        rules: built.rules.map((rule, index) => ({
+          tag: rule.tag,
+          summary: describeRuleConditions(rule.conditions),
+          details: [
+            rule.syncTag
+              ? "Removes the tag when the product stops matching"
+              : "",
+            rule.exclusiveGroup
+              ? `Exclusive group "${rule.exclusiveGroup}"`
+              : "",
+            rule.startsAt || rule.endsAt
+              ? `Active ${describeTimeWindow(rule.startsAt, rule.endsAt, timeZone)}`
+              : "",
+          ].filter(Boolean),
+          totalMatches: preview.entries[index].totalMatches,
+          examples: preview.entries[index].examples,
+        })),
+      },
+    };
+  }
+
+  if (intent === "apply") {
+    const changedBy = getChangedBy({ session, sessionToken });
+    try {
+      for (const rule of built.rules) {
+        await createRuleForShop(shop.id, rule, changedBy);
+      }
+    } catch (error) {
+      console.error("Error creating rules from template:", error);
+      return { error: "Failed to create rules. Please try again." };
+    }
+
+    return {
+      ok: true,
+      message:
+        built.rules.length === 1
+          ? "Rule created"
+          : `${built.rules.length} rules created`,
+    };
+  }
+
+  return { ok: false };
+};
+
+const initialValues = (template: RuleTemplate) =>
+  Object.fromEntries(
+    template.params.map((param) => [param.name, param.defaultValue]),
+  );
+
+export default function RuleTemplatesPage() {
+  const { templates } = useLoaderData() as LoaderData;
+  const fetcher = useFetcher<ActionData>();
+  const shopify = useAppBridge();
+  const navigate = useNavigate();
+
+  const [selected, setSelected] = useState<RuleTemplate | null>(null);
+  const [values, setValues] = useState<Record<string, string>>({});
+  const [preview, setPreview] = useState<TemplatePreview | null>(null);
+
+  useEffect(() => {
+    if (fetcher.data?.preview) {
+      setPreview(fetcher.data.preview);
+    }
+    if (fetcher.data?.ok) {
+      shopify.toast.show(fetcher.data.message ?? "Rules created");
+      navigate("/app/product-rules");
+    }
+    if (fetcher.data?.error) {
+      shopify.toast.show(fetcher.data.error, { isError: true });
+    }
+  }, [fetcher.data, shopify, navigate]);
+
+  const handleSelect = (template: RuleTemplate) => {
+    setSelected(template);
+    setValues(initialValues(template));
+    setPreview(null);
+  };
+
+  // A preview only applies to the parameters it was made with.
+  const handleChange = (name: string, value: string) => {
+    setValues((current) => ({ ...current, [name]: value }));
+    setPreview(null);
+  };
+
+  const submit = (intent: "preview" | "apply") => {
+    if (!selected) return;
+    const formData = new FormData();
+    formData.append("_intent", intent);
+    formData.append("templateId", selected.id);
+    formData.append("values", JSON.stringify(values));
+    fetcher.submit(formData, { method: "post" });
+  };
+
+  const isBusy = fetcher.state !== "idle";
+
+  return (
+    <s-page heading="Rule templates">
+      <s-link slot="breadcrumb-actions" href="/app/product-rules">
+        Product rules
+      </s-link>
+
+      <s-section heading="Start from a template">
+        <s-stack direction="block" gap="base">
+          <s-paragraph>
+            Pick a common tagging strategy, adjust it, and preview which
+            products it would tag before creating the rules. You can edit the
+            rules afterwards like any other rule.
+          </s-paragraph>
+          {templates.map((template) => (
+            <s-box
+              key={template.id}
+              padding="base"
+              borderWidth="base"
+              borderRadius="base"
+            >
+              <s-stack direction="block" gap="small">
+                <s-heading>{template.name}</s-heading>
+                <s-paragraph>{template.description}</s-paragraph>
+                <s-button
+                  variant={
+                    selected?.id === template.id ? "primary" : "secondary"
+                  }
+                  onClick={() => handleSelect(template)}
+                >
+                  {selected?.id === template.id ? "Selected" : "Use template"}
+                </s-button>
+              </s-stack>
+            </s-box>
+          ))}
+        </s-stack>
+      </s-section>
+
+      {selected && (
+        <s-section heading={selected.name}>
+          <s-stack direction="block" gap="base">
+            {selected.params.map((param) => (
+              <s-text-field
+                key={param.name}
+                label={param.label}
+                value={values[param.name] ?? ""}
+                placeholder={param.defaultValue}
+                details={param.helpText}
+                onChange={(event: Event) =>
+                  handleChange(
+                    param.name,
+                    (event.currentTarget as HTMLInputElement).value,
+                  )
+                }
+                autocomplete="off"
+              />
+            ))}
+
+            {fetcher.data?.error && (
+              <s-text tone="critical">{fetcher.data.error}</s-text>
+            )}
+
+            <s-button onClick={() => submit("preview")} loading={isBusy}>
+              Preview
+            </s-button>
+          </s-stack>
+        </s-section>
+      )}
+
+      {selected && preview?.templateId === selected.id && (
+        <s-section heading="Preview">
+          <s-stack direction="block" gap="base">
+            <s-paragraph>
+              {preview.rules.length === 1
+                ? "This rule will be created"
+                : `These ${preview.rules.length} rules will be created`}
+              , after your existing rules. Matches are counted against the{" "}
+              {preview.totalProducts} stored products.
+            </s-paragraph>
+            <s-table>
+              <s-table-header-row>
+                <s-table-header listSlot="primary">Tag</s-table-header>
+                <s-table-header>Conditions</s-table-header>
+                <s-table-header>Settings</s-table-header>
+                <s-table-header>Matching products</s-table-header>
+              </s-table-header-row>
+              <s-table-body>
+                {preview.rules.map((rule) => (
+                  <s-table-row key={rule.tag}>
+                    <s-table-cell>{rule.tag}</s-table-cell>
+                    <s-table-cell>{rule.summary}</s-table-cell>
+                    <s-table-cell>
+                      <s-stack direction="block">
+                        {rule.details.length > 0
+                          ? rule.details.map((detail) => (
+                              <s-text key={detail}>{detail}</s-text>
+                            ))
+                          : "—"}
+                      </s-stack>
+                    </s-table-cell>
+                    <s-table-cell>
+                      <s-stack direction="block">
+                        <s-text>{rule.totalMatches}</s-text>
+                        {rule.examples.length > 0 && (
+                          <s-text tone="neutral">
+                            e.g. {rule.examples.join(", ")}
+                          </s-text>
+                        )}
+                      </s-stack>
+                    </s-table-cell>
+                  </s-table-row>
+                ))}
+              </s-table-body>
+            </s-table>
+            <s-paragraph>
+              Tags are applied when products next change, or right away with
+              &quot;Run on all products&quot; on the rules page.
+            </s-paragraph>
+            <s-button
+              variant="primary"
+              onClick={() => submit("apply")}
+              loading={isBusy}
+            >
+              {preview.rules.length === 1
+                ? "Create rule"
+                : `Create ${preview.rules.length} rules`}
+            </s-button>
+          </s-stack>
+        </s-section>
+      )}
+    </s-page>
+  );
+}
+
+export const headers: HeadersFunction = (headersArgs) =>
+  boundary.headers(headersArgs);
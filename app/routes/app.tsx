@@ -21,6 +21,7 @@ export default function App() {
         <s-link href="/app">Dashboard</s-link>
         <s-link href="/app/settings">Settings</s-link>
         <s-link href="/app/product-rules">Product rules</s-link>
+        <s-link href="/app/webhook-jobs">Webhook jobs</s-link>
       </s-app-nav>
       <Outlet />
     </AppProvider>
@@ -0,0 +1,343 @@
+import { useEffect } from "react";
+import type {
+  ActionFunctionArgs,
+  HeadersFunction,
+  LoaderFunctionArgs,
+} from "react-router";
+import { useFetcher, useLoaderData, useSearchParams } from "react-router";
+import { useAppBridge } from "@shopify/app-bridge-react";
+import { boundary } from "@shopify/shopify-app-react-router/server";
+
+import { authenticate } from "../shopify.server";
+import {
+  getWebhookJobCounts,
+  getWebhookJobsForShop,
+  MAX_ATTEMPTS,
+  requeueWebhookJobs,
+  type WebhookJobStatus,
+} from "../lib/webhookJobs.server";
+import {
+  getWebhookMetricTotals,
+  type WebhookMetricName,
+} from "../lib/webhookMetrics.server";
+
+type JobRow = {
+  id: string;
+  topic: string;
+  product: string | null;
+  status: WebhookJobStatus;
+  attempts: number;
+  runAt: string;
+  lastError: string | null;
+  createdAt: string;
+  completedAt: string | null;
+};
+
+type LoaderData = {
+  jobs: JobRow[];
+  counts: Record<WebhookJobStatus, number>;
+  skipped: Record<WebhookMetricName, number>;
+  status: WebhookJobStatus | null;
+  page: number;
+  hasNextPage: boolean;
+};
+
+type ActionData = {
+  error?: string;
+  ok?: boolean;
+  message?: string;
+};
+
+const STATUSES: WebhookJobStatus[] = [
+  "pending",
+  "processing",
+  "completed",
+  "dead",
+];
+
+const STATUS_LABELS: Record<WebhookJobStatus, string> = {
+  pending: "Pending",
+  processing: "Processing",
+  completed: "Completed",
+  dead: "Failed",
+};
+
+const STATUS_TONES: Record<
+  WebhookJobStatus,
+  "neutral" | "info" | "success" | "critical"
+> = {
+  pending: "neutral",
+  processing: "info",
+  completed: "success",
+  dead: "critical",
+};
+
+const METRIC_DAYS = 7;
+
+const isJobStatus = (value: string | null): value is WebhookJobStatus =>
+  STATUSES.includes(value as WebhookJobStatus);
+
+/**
+ * Webhook jobs: the shop's queued, processed and failed webhook deliveries,
+ * filtered by status (?status=). Failed jobs can be requeued.
+ */
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+
+  const params = new URL(request.url).searchParams;
+  const statusParam = params.get("status");
+  const status = isJobStatus(statusParam) ? statusParam : null;
+  const page = Math.max(1, Math.floor(Number(params.get("page")) || 1));
+
+  const [{ jobs, hasNextPage }, counts, skipped] = await Promise.all([
+    getWebhookJobsForShop(session.shop, status, page),
+    getWebhookJobCounts(session.shop),
+    getWebhookMetricTotals(session.shop, METRIC_DAYS),
+  ]);
+
+  const data: LoaderData = {
+    jobs: jobs.map((job) => {
+      const payload = job.payload as {
+        id?: number;
+        title?: string;
+        inventory_item_id?: number;
+      } | null;
+      return {
+        id: job.id,
+        topic: job.topic,
+        product:
+          payload?.title ??
+          (payload?.id
+            ? `Product ${payload.id}`
+            : payload?.inventory_item_id
+              ? `Inventory item ${payload.inventory_item_id}`
+              : null),
+        status: job.status as WebhookJobStatus,
+        attempts: job.attempts,
+        runAt: job.runAt.toISOString(),
+        lastError: job.lastError,
+        createdAt: job.createdAt.toISOString(),
+        completedAt: job.completedAt?.toISOString() ?? null,
+      };
+    }),
+    counts,
+    skipped,
+    status,
+    page,
+    hasNextPage,
+  };
+
+  return data;
+};
+
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+
+  const formData = await request.formData();
+  const intent = formData.get("_intent");
+
+  if (intent === "requeue" || intent === "requeue-all") {
+    const jobId =
+      intent === "requeue" ? String(formData.get("jobId") ?? "") : undefined;
+
+    try {
+      const count = await requeueWebhookJobs(session.shop, jobId);
+      if (count === 0) {
+        return { error: "No failed jobs to requeue." };
+      }
+      return {
+        ok: true,
+        message: count === 1 ? "Job requeued" : `${count} jobs requeued`,
+      };
+    } catch (error) {
+      console.error("Error requeueing webhook jobs:", error);
+      return { error: "Failed to requeue jobs. Please try again." };
+    }
+  }
+
+  return { ok: false };
+};
+
+const selectStyle = {
+  minWidth: 200,
+  padding: "8px 12px",
+  borderRadius: "4px",
+  border: "1px solid #8c9196",
+  fontSize: "14px",
+  backgroundColor: "white",
+};
+
+export default function WebhookJobsPage() {
+  const { jobs, counts, skipped, status, page, hasNextPage } =
+    useLoaderData() as LoaderData;
+  const fetcher = useFetcher<ActionData>();
+  const shopify = useAppBridge();
+  const [searchParams, setSearchParams] = useSearchParams();
+
+  useEffect(() => {
+    if (fetcher.data?.ok) {
+      shopify.toast.show(fetcher.data.message ?? "Jobs requeued");
+    }
+    if (fetcher.data?.error) {
+      shopify.toast.show(fetcher.data.error, { isError: true });
+    }
+  }, [fetcher.data, shopify]);
+
+  // Changing the filter starts again at the first page.
+  const setStatus = (value: string) => {
+    const next = new URLSearchParams(searchParams);
+    if (value) next.set("status", value);
+    else next.delete("status");
+    next.delete("page");
+    setSearchParams(next);
+  };
+
+  const setPage = (value: number) => {
+    const next = new URLSearchParams(searchParams);
+    next.set("page", String(value));
+    setSearchParams(next);
+  };
+
+  const requeue = (jobId?: string) => {
+    const formData = new FormData();
+    formData.append("_intent", jobId ? "requeue" : "requeue-all");
+    if (jobId) formData.append("jobId", jobId);
+    fetcher.submit(formData, { method: "post" });
+  };
+
+  const isRequeueing = fetcher.state !== "idle";
+  const total = STATUSES.reduce((sum, value) => sum + counts[value], 0);
+
+  return (
+    <s-page heading="Webhook jobs">
+      {counts.dead > 0 && (
+        <s-button
+          slot="secondary-actions"
+          onClick={() => requeue()}
+          disabled={isRequeueing}
+        >
+          Requeue all failed
+        </s-button>
+      )}
+
+      <s-section>
+        <s-stack direction="block" gap="base">
+          <s-paragraph>
+            Product webhooks from Shopify are queued here and processed in the
+            background. A job that fails is retried with increasing delays;
+            after {MAX_ATTEMPTS} attempts it is marked as failed until you
+            requeue it.
+          </s-paragraph>
+
+          <s-paragraph>
+            Skipped in the last {METRIC_DAYS} days: {skipped.echo_skipped}{" "}
+            updates caused by the app&apos;s own tagging,{" "}
+            {skipped.duplicate_skipped} repeated deliveries and{" "}
+            {skipped.stale_skipped} outdated updates.
+          </s-paragraph>
+
+          {counts.dead > 0 && (
+            <s-banner tone="critical">
+              {counts.dead === 1
+                ? "1 job failed and won't be retried automatically."
+                : `${counts.dead} jobs failed and won't be retried automatically.`}
+            </s-banner>
+          )}
+
+          <s-stack direction="inline" gap="base">
+            <select
+              aria-label="Status"
+              value={status ?? ""}
+              onChange={(event) => setStatus(event.currentTarget.value)}
+              style={selectStyle}
+            >
+              <option value="">{`All statuses (${total})`}</option>
+              {STATUSES.map((value) => (
+                <option key={value} value={value}>
+                  {`${STATUS_LABELS[value]} (${counts[value]})`}
+                </option>
+              ))}
+            </select>
+          </s-stack>
+
+          {jobs.length === 0 ? (
+            <s-paragraph>No jobs match this filter.</s-paragraph>
+          ) : (
+            <s-table>
+              <s-table-header-row>
+                <s-table-header listSlot="primary">Webhook</s-table-header>
+                <s-table-header>Status</s-table-header>
+                <s-table-header>Attempts</s-table-header>
+                <s-table-header>Received</s-table-header>
+                <s-table-header>Actions</s-table-header>
+              </s-table-header-row>
+              <s-table-body>
+                {jobs.map((job) => (
+                  <s-table-row key={job.id}>
+                    <s-table-cell>
+                      <s-stack direction="block">
+                        <s-text>{job.topic}</s-text>
+                        {job.product && (
+                          <s-text tone="neutral">{job.product}</s-text>
+                        )}
+                      </s-stack>
+                    </s-table-cell>
+                    <s-table-cell>
+                      <s-stack direction="block">
+                        <s-badge tone={STATUS_TONES[job.status]}>
+                          {STATUS_LABELS[job.status]}
+                        </s-badge>
+                        {job.status === "pending" && job.attempts > 0 && (
+                          <s-text tone="neutral">
+                            Retrying {new Date(job.runAt).toLocaleString()}
+                          </s-text>
+                        )}
+                        {job.status !== "completed" && job.lastError && (
+                          <s-text tone="critical">{job.lastError}</s-text>
+                        )}
+                      </s-stack>
+                    </s-table-cell>
+                    <s-table-cell>{job.attempts}</s-table-cell>
+                    <s-table-cell>
+                      {new Date(job.createdAt).toLocaleString()}
+                    </s-table-cell>
+                    <s-table-cell>
+                      {job.status === "dead" ? (
+                        <s-button
+                          variant="tertiary"
+                          onClick={() => requeue(job.id)}
+                          disabled={isRequeueing}
+                        >
+                          Requeue
+                        </s-button>
+                      ) : (
+                        "—"
+                      )}
+                    </s-table-cell>
+                  </s-table-row>
+                ))}
+              </s-table-body>
+            </s-table>
+          )}
+
+          {(page > 1 || hasNextPage) && (
+            <s-stack direction="inline" gap="base">
+              <s-button disabled={page <= 1} onClick={() => setPage(page - 1)}>
+                Newer
+              </s-button>
+              <s-button
+                disabled={!hasNextPage}
+                onClick={() => setPage(page + 1)}
+              >
+                Older
+              </s-button>
+            </s-stack>
+          )}
+        </s-stack>
+      </s-section>
+    </s-page>
+  );
+}
+
+export const headers: HeadersFunction = (headersArgs) =>
+  boundary.headers(headersArgs);
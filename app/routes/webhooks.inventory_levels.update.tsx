@@ -0,0 +1,11 @@
+import type { ActionFunctionArgs } from "react-router";
+import { authenticate } from "../shopify.server";
+import { acceptWebhook } from "../lib/webhookJobs.server";
+
+/**
+ * inventory_levels/update webhook handler.
+ * Stored as a job for the worker, like products/create; the worker updates
+ * the product's inventory and re-runs its inventory rules.
+ */
+export const action = async ({ request }: ActionFunctionArgs) =>
+  acceptWebhook(await authenticate.webhook(request));
@@ -0,0 +1,11 @@
+import type { ActionFunctionArgs } from "react-router";
+import { authenticate } from "../shopify.server";
+import { acceptWebhook } from "../lib/webhookJobs.server";
+
+/**
+ * products/delete webhook handler.
+ * Stored as a job for the worker, like products/create; the worker
+ * removes the stored product.
+ */
+export const action = async ({ request }: ActionFunctionArgs) =>
+  acceptWebhook(await authenticate.webhook(request));
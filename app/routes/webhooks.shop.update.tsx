@@ -0,0 +1,33 @@
+import type { ActionFunctionArgs } from "react-router";
+import { authenticate } from "../shopify.server";
+import { saveShopDetails } from "../lib/shop.server";
+
+/**
+ * Webhook handler for shop/update
+ *
+ * Shopify sends this webhook when the merchant changes the store's
+ * settings. We keep the stored currency and time zone in sync, since rules
+ * use them for price precision and schedules.
+ */
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { shop, topic, payload } = await authenticate.webhook(request);
+
+  console.log(`Received ${topic} webhook for ${shop}`);
+
+  const { currency, iana_timezone } = payload as {
+    currency?: string | null;
+    iana_timezone?: string | null;
+  };
+
+  try {
+    await saveShopDetails(shop, {
+      currencyCode: currency ?? null,
+      timezone: iana_timezone ?? null,
+    });
+  } catch (error) {
+    // A failed write keeps the old values until the next update or login.
+    console.error(`Error handling shop update webhook for ${shop}:`, error);
+  }
+
+  return new Response(null, { status: 200 });
+};
@@ -6,7 +6,7 @@ import {
 } from "@shopify/shopify-app-react-router/server";
 import { PrismaSessionStorage } from "@shopify/shopify-app-session-storage-prisma";
 import prisma from "./db.server";
-import { upsertShop } from "./lib/shop.server";
+import { syncShopDetails, upsertShop } from "./lib/shop.server";
 
 /**
  * Shopify app configuration with installation handling
@@ -37,10 +37,11 @@ const shopify = shopifyApp({
      * Handle shop installation and token updates
      * This runs after OAuth completes, ensuring we have a valid session
      */
-    afterAuth: async ({ session }) => {
+    afterAuth: async ({ session, admin }) => {
       // Persist shop data to our database
       // This handles both new installs and token refreshes
       await upsertShop(session);
+      await syncShopDetails(session.shop, admin);
 
       // Note: Webhooks are registered via shopify.app.toml (app-specific webhooks)
       // This is preferred over shop-specific webhooks for better reliability
@@ -0,0 +1,129 @@
+import prisma from "../db.server";
+import {
+  findProductByInventoryItem,
+  setVariantInventory,
+} from "../lib/inventoryLevels.server";
+import {
+  dependsOnInventory,
+  getRulesForShop,
+} from "../lib/productRules.server";
+import { mapStoredProduct } from "../lib/products.server";
+import { applyRulesToProduct } from "../lib/ruleApplication.server";
+import type { AdminContext } from "./products.server";
+
+/**
+ * inventory_levels/update payload.
+ * We only declare the fields we actually depend on.
+ */
+export interface InventoryLevelWebhookPayload {
+  inventory_item_id: number;
+}
+
+const VARIANT_INVENTORY_QUERY = `
+  query VariantInventory($id: ID!) {
+    inventoryItem(id: $id) {
+      variant {
+        inventoryQuantity
+      }
+    }
+  }
+`;
+
+/**
+ * A variant's available quantity summed over all locations, by its
+ * inventory item. The webhook only reports one location.
+ */
+async function fetchVariantInventory(
+  admin: AdminContext,
+  inventoryItemId: bigint,
+): Promise<number | null> {
+  const response = await admin.graphql(VARIANT_INVENTORY_QUERY, {
+    variables: { id: `gid://shopify/InventoryItem/${inventoryItemId}` },
+  });
+
+  const json = (await response.json()) as {
+    data?: {
+      inventoryItem?: {
+        variant?: { inventoryQuantity?: number | null } | null;
+      } | null;
+    };
+  };
+
+  return json.data?.inventoryItem?.variant?.inventoryQuantity ?? null;
+}
+
+/**
+ * Process an inventory_levels/update webhook: update the variant's total on
+ * the stored product, and re-run the rules for that product if any rule
+ * depends on inventory.
+ * The total is read from Shopify rather than taken from the payload, so a
+ * delivery that arrives late still stores the current quantity.
+ * Without an admin context the product isn't updated, since its total over
+ * all locations can't be read.
+ */
+export async function processInventoryLevelWebhook(options: {
+  shopDomain: string;
+  topic: string;
+  payload: InventoryLevelWebhookPayload;
+  admin: AdminContext | null;
+}): Promise<void> {
+  const { shopDomain, topic, payload, admin } = options;
+  const inventoryItemId = BigInt(payload.inventory_item_id);
+
+  const shopRecord = await prisma.shop.findUnique({
+    where: { shopDomain },
+    select: { id: true },
+  });
+
+  if (!shopRecord) {
+    console.warn(
+      `No Shop record found for domain ${shopDomain}, skipping inventory update`,
+    );
+    return;
+  }
+
+  const product = await findProductByInventoryItem(
+    shopRecord.id,
+    inventoryItemId,
+  );
+  if (!product) {
+    console.log(
+      `No stored product for inventory item ${inventoryItemId} of ${shopDomain}`,
+    );
+    return;
+  }
+
+  if (!admin) {
+    console.warn(
+      `Admin context missing for ${topic} webhook, skipping product inventory`,
+    );
+    return;
+  }
+
+  const quantity = await fetchVariantInventory(admin, inventoryItemId);
+  if (quantity == null) {
+    console.warn(`No variant found for inventory item ${inventoryItemId}`);
+    return;
+  }
+
+  const updated = await setVariantInventory(product, inventoryItemId, quantity);
+  if (!updated) return;
+
+  const rules = await getRulesForShop(shopRecord.id);
+  if (!rules.some(dependsOnInventory)) return;
+
+  // All rules, not just the inventory ones: exclusive groups, stop
+  // processing and sync-mode removal depend on the whole rule list. The
+  // other rules see the same product as before.
+  const stored = mapStoredProduct(updated);
+  await applyRulesToProduct({
+    shopId: shopRecord.id,
+    admin,
+    rules,
+    productId: stored.shopifyProductId,
+    productForEvaluation: stored.productForEvaluation,
+    existingTags: stored.existingTags,
+    current: stored.actionState,
+    source: "inventory",
+  });
+}
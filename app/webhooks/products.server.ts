@@ -1,16 +1,23 @@
+import { Prisma } from "@prisma/client";
 import prisma from "../db.server";
+import { compareDecimals, parseDecimal, type Decimal } from "../lib/decimal";
 import {
-  evaluateProductRules,
   getRulesForShop,
-  mergeProductTags,
   type ProductForEvaluation,
 } from "../lib/productRules.server";
+import {
+  deleteStoredProducts,
+  getProductDeletedAt,
+  getTagSet,
+} from "../lib/products.server";
+import { applyRulesToProduct } from "../lib/ruleApplication.server";
+import { incrementWebhookMetric } from "../lib/webhookMetrics.server";
 
 // Minimal admin context type for GraphQL calls used in webhooks.
-type AdminContext = {
+export type AdminContext = {
   graphql: (
     query: string,
-    options?: { variables?: unknown },
+    options?: { variables?: Record<string, unknown> },
   ) => Promise<Response>;
 };
 
@@ -22,12 +29,29 @@ export interface ProductWebhookPayload {
   id: number;
   title?: string | null;
   vendor?: string | null;
+  product_type?: string | null;
+  handle?: string | null;
+  template_suffix?: string | null;
   status?: string | null; // "active" | "draft" | "archived"
   variants?: Array<{
     price?: string | null;
+    compare_at_price?: string | null;
+    sku?: string | null;
     inventory_quantity?: number | null;
+    inventory_item_id?: number | string | null; // a string from the backfill
+    grams?: number | null;
+    weight?: number | null;
+    weight_unit?: string | null; // "g" | "kg" | "lb" | "oz"
   }>;
   tags?: string | null;
+  updated_at?: string | null; // ISO 8601
+}
+
+/**
+ * products/delete payload: only the id of the deleted product.
+ */
+export interface ProductDeleteWebhookPayload {
+  id: number;
 }
 
 interface MappedProduct {
@@ -36,6 +60,82 @@ interface MappedProduct {
   existingTags: string[];
 }
 
+type ProductWebhookVariant = NonNullable<
+  ProductWebhookPayload["variants"]
+>[number];
+
+const GRAMS_PER_UNIT: Record<string, number> = {
+  g: 1,
+  kg: 1000,
+  lb: 453.59237,
+  oz: 28.349523125,
+};
+
+/**
+ * Variant weight in grams. Older payloads send `grams` directly; newer ones
+ * only send `weight` + `weight_unit`.
+ */
+function getVariantWeightInGrams(
+  variant: ProductWebhookVariant,
+): number | null {
+  if (variant.grams != null) return variant.grams;
+  if (variant.weight == null) return null;
+
+  const factor = GRAMS_PER_UNIT[variant.weight_unit ?? "g"];
+  return factor != null ? variant.weight * factor : null;
+}
+
+/**
+ * Variant data kept on the Product row.
+ * Prices stay strings to preserve precision; weight is in grams.
+ */
+export interface StoredVariant {
+  price: string | null;
+  compareAtPrice: string | null;
+  sku: string | null;
+  inventoryQuantity: number | null;
+  weight: number | null;
+  // Links inventory_levels/update webhooks to the variant. A string, as
+  // JSON numbers lose precision past 2^53.
+  inventoryItemId: string | null;
+}
+
+export function getStoredVariants(
+  payload: ProductWebhookPayload,
+): StoredVariant[] {
+  return (payload.variants ?? []).map((variant) => ({
+    price: variant.price ?? null,
+    compareAtPrice: variant.compare_at_price ?? null,
+    sku: variant.sku?.trim() || null,
+    inventoryQuantity: variant.inventory_quantity ?? null,
+    weight: getVariantWeightInGrams(variant),
+    inventoryItemId:
+      variant.inventory_item_id != null
+        ? String(variant.inventory_item_id)
+        : null,
+  }));
+}
+
+/**
+ * Lowest and highest variant price, as the original strings.
+ */
+function getPriceRange(variants: StoredVariant[]): {
+  minPrice: string | null;
+  maxPrice: string | null;
+} {
+  let min: { price: string; value: Decimal } | null = null;
+  let max: { price: string; value: Decimal } | null = null;
+
+  for (const { price } of variants) {
+    const value = price != null ? parseDecimal(price) : null;
+    if (price == null || value == null) continue;
+    if (!min || compareDecimals(value, min.value) < 0) min = { price, value };
+    if (!max || compareDecimals(value, max.value) > 0) max = { price, value };
+  }
+
+  return { minPrice: min?.price ?? null, maxPrice: max?.price ?? null };
+}
+
 /**
  * Map REST webhook payload to the minimal shape we need for rule evaluation.
  */
@@ -44,18 +144,12 @@ export function mapWebhookPayloadToProduct(
 ): MappedProduct {
   const shopifyProductId = `gid://shopify/Product/${payload.id}`;
 
-  const firstVariant = payload.variants?.[0];
-  const price =
-    firstVariant?.price != null ? Number.parseFloat(firstVariant.price) : null;
-
   const totalInventory =
     payload.variants?.reduce<number>((sum, variant) => {
       const qty = variant.inventory_quantity ?? 0;
       return sum + qty;
     }, 0) ?? null;
 
-  const vendor = payload.vendor ?? null;
-
   const existingTags =
     payload.tags
       ?.split(",")
@@ -65,67 +159,208 @@ export function mapWebhookPayloadToProduct(
   return {
     shopifyProductId,
     productForEvaluation: {
-      price: Number.isNaN(price ?? NaN) ? null : price,
+      variants: getStoredVariants(payload).map((variant) => ({
+        price: variant.price,
+        compareAtPrice: variant.compareAtPrice,
+        sku: variant.sku,
+        inventoryQuantity: variant.inventoryQuantity,
+        weight: variant.weight,
+      })),
       totalInventory,
-      vendor,
+      title: payload.title ?? null,
+      vendor: payload.vendor ?? null,
+      productType: payload.product_type ?? null,
+      status: payload.status ?? null,
+      handle: payload.handle ?? null,
+      tags: existingTags,
     },
     existingTags,
   };
 }
 
+function parseUpdatedAt(payload: ProductWebhookPayload): Date | null {
+  if (!payload.updated_at) return null;
+  const date = new Date(payload.updated_at);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+// An echo of our own write is expected within this time of the write.
+const OWN_WRITE_ECHO_WINDOW_MS = 60 * 60 * 1000;
+
+/**
+ * Product row fields from a webhook payload.
+ */
+function getStoredProductData(payload: ProductWebhookPayload) {
+  const shopifyUpdatedAt = parseUpdatedAt(payload);
+  const variants = getStoredVariants(payload);
+  const { minPrice, maxPrice } = getPriceRange(variants);
+
+  const totalInventory =
+    payload.variants?.reduce<number>((sum, variant) => {
+      const qty = variant.inventory_quantity ?? 0;
+      return sum + qty;
+    }, 0) ?? null;
+
+  return {
+    title: payload.title ?? null,
+    vendor: payload.vendor ?? null,
+    productType: payload.product_type ?? null,
+    handle: payload.handle ?? null,
+    templateSuffix: payload.template_suffix ?? null,
+    tags: payload.tags ?? null,
+    status: payload.status ?? null,
+    minPrice,
+    maxPrice,
+    variants: variants as unknown as Prisma.InputJsonValue,
+    totalInventory: totalInventory ?? null,
+    // Payloads without updated_at keep the stored time.
+    ...(shopifyUpdatedAt ? { shopifyUpdatedAt } : {}),
+  };
+}
+
+/**
+ * Only rows that aren't newer than the payload.
+ */
+function getNotNewerFilter(
+  payload: ProductWebhookPayload,
+): Prisma.ProductWhereInput {
+  const shopifyUpdatedAt = parseUpdatedAt(payload);
+  return shopifyUpdatedAt
+    ? {
+        OR: [
+          { shopifyUpdatedAt: null },
+          { shopifyUpdatedAt: { lte: shopifyUpdatedAt } },
+        ],
+      }
+    : {};
+}
+
 /**
  * Save or update a product in the database from webhook payload.
  * This ensures all products are stored in Postgres for viewing in Prisma Studio.
+ *
+ * Webhooks can arrive out of order: a payload whose updated_at is older than
+ * the stored one, or than the product's deletion, is stale and is discarded.
+ * Returns false in that case.
  */
 export async function saveProductToDatabase(options: {
   shopId: string;
   payload: ProductWebhookPayload;
-}): Promise<void> {
+}): Promise<boolean> {
   const { shopId, payload } = options;
+  const shopifyProductId = BigInt(payload.id);
+  const data = getStoredProductData(payload);
 
-  const firstVariant = payload.variants?.[0];
-  const price = firstVariant?.price ?? null;
+  // The time check is part of the update itself, so a concurrent older
+  // delivery can't overwrite a newer one between a read and a write.
+  const { count } = await prisma.product.updateMany({
+    where: { shopId, shopifyProductId, ...getNotNewerFilter(payload) },
+    data,
+  });
+  if (count > 0) return true;
 
-  const totalInventory =
-    payload.variants?.reduce<number>((sum, variant) => {
-      const qty = variant.inventory_quantity ?? 0;
-      return sum + qty;
-    }, 0) ?? null;
+  const existing = await prisma.product.findUnique({
+    where: { shopId_shopifyProductId: { shopId, shopifyProductId } },
+    select: { shopifyUpdatedAt: true },
+  });
+
+  if (existing) {
+    console.warn(
+      `Discarding stale payload for product ${payload.id}: updated_at ${payload.updated_at} is older than the stored ${existing.shopifyUpdatedAt?.toISOString()}`,
+    );
+    return false;
+  }
+
+  // Deleted products aren't recreated by updates from before the delete.
+  const deletedAt = await getProductDeletedAt(shopId, shopifyProductId);
+  const shopifyUpdatedAt = parseUpdatedAt(payload);
+  if (deletedAt && (!shopifyUpdatedAt || shopifyUpdatedAt <= deletedAt)) {
+    console.warn(
+      `Discarding stale payload for product ${payload.id}: it was deleted at ${deletedAt.toISOString()}`,
+    );
+    return false;
+  }
 
-  await prisma.product.upsert({
+  try {
+    await prisma.product.create({
+      data: { shopId, shopifyProductId, ...data },
+    });
+    return true;
+  } catch (error) {
+    if (
+      !(error instanceof Prisma.PrismaClientKnownRequestError) ||
+      error.code !== "P2002"
+    ) {
+      throw error;
+    }
+  }
+
+  // Another delivery stored the product in the meantime: apply this one
+  // only if it isn't older, with the same conditional update as above.
+  const { count: retried } = await prisma.product.updateMany({
+    where: { shopId, shopifyProductId, ...getNotNewerFilter(payload) },
+    data,
+  });
+  if (retried > 0) return true;
+
+  console.warn(
+    `Discarding stale payload for product ${payload.id}: a newer version was stored concurrently`,
+  );
+  return false;
+}
+
+/**
+ * Save a products/update payload that is the echo of the app's own last
+ * write to the product (see recordOwnWrite): its tags are exactly the ones
+ * we wrote, and every other field the rules read or the app writes is as
+ * stored. Evaluating the rules again would change nothing, so the caller
+ * can stop here.
+ * Returns false, without saving, for any other payload.
+ * A single conditional update, so checking costs no more than saving.
+ */
+export async function saveOwnWriteEcho(options: {
+  shopId: string;
+  payload: ProductWebhookPayload;
+  now?: Date;
+}): Promise<boolean> {
+  const { shopId, payload, now = new Date() } = options;
+  const data = getStoredProductData(payload);
+  const { existingTags } = mapWebhookPayloadToProduct(payload);
+
+  const { count } = await prisma.product.updateMany({
     where: {
-      shopId_shopifyProductId: {
-        shopId,
-        shopifyProductId: BigInt(payload.id),
-      },
-    },
-    create: {
       shopId,
       shopifyProductId: BigInt(payload.id),
-      title: payload.title ?? null,
-      vendor: payload.vendor ?? null,
-      tags: payload.tags ?? null,
-      status: payload.status ?? null,
-      price: price ?? null,
-      totalInventory: totalInventory ?? null,
-    },
-    update: {
-      title: payload.title ?? null,
-      vendor: payload.vendor ?? null,
-      tags: payload.tags ?? null,
-      status: payload.status ?? null,
-      price: price ?? null,
-      totalInventory: totalInventory ?? null,
+      lastWrittenAt: {
+        gte: new Date(now.getTime() - OWN_WRITE_ECHO_WINDOW_MS),
+      },
+      lastWrittenTags: { equals: getTagSet(existingTags) },
+      title: data.title,
+      vendor: data.vendor,
+      handle: data.handle,
+      productType: data.productType,
+      status: data.status,
+      variants: { equals: data.variants },
+      AND: [
+        // Shopify reports the default template as either "" or null.
+        data.templateSuffix
+          ? { templateSuffix: data.templateSuffix }
+          : { OR: [{ templateSuffix: null }, { templateSuffix: "" }] },
+        getNotNewerFilter(payload),
+      ],
     },
+    // The echo is consumed: a later update with the same tags is evaluated.
+    data: { ...data, lastWrittenAt: null },
   });
+
+  return count > 0;
 }
 
 /**
  * Apply product rules for a given shop + product payload.
- *
- * Idempotency:
- * - We only call productUpdate when at least one new tag would be added.
- * - Existing tags are preserved; we never remove tags.
+ * The product must already be saved with saveProductToDatabase, which also
+ * tells whether the payload is stale.
+ * See applyRulesToProduct for the idempotency guarantees.
  */
 export async function applyProductRulesForShop(options: {
   shopDomain: string;
@@ -144,68 +379,113 @@ export async function applyProductRulesForShop(options: {
     return;
   }
 
-  // Save product to database first (always, regardless of rules)
-  await saveProductToDatabase({
-    shopId: shopRecord.id,
-    payload,
-  });
-
   const rules = await getRulesForShop(shopRecord.id);
   if (rules.length === 0) {
     // No rules configured for this shop; nothing to do.
     return;
   }
 
-  const { shopifyProductId, productForEvaluation, existingTags } =
+  const { productForEvaluation, existingTags } =
     mapWebhookPayloadToProduct(payload);
 
-  const ruleTags = evaluateProductRules(productForEvaluation, rules);
-  if (ruleTags.length === 0) {
+  await applyRulesToProduct({
+    shopId: shopRecord.id,
+    admin,
+    rules,
+    productId: BigInt(payload.id),
+    productForEvaluation,
+    existingTags,
+    current: {
+      productType: payload.product_type ?? null,
+      status: payload.status ?? null,
+      templateSuffix: payload.template_suffix ?? null,
+    },
+    source: "webhook",
+  });
+}
+
+/**
+ * Process a products/create or products/update webhook: store the product,
+ * then apply the shop's rules to it. Stale payloads are discarded.
+ * Without an admin context (e.g. no stored session) the product is still
+ * stored but not tagged.
+ */
+export async function processProductWebhook(options: {
+  shopDomain: string;
+  topic: string;
+  payload: ProductWebhookPayload;
+  admin: AdminContext | null;
+}): Promise<void> {
+  const { shopDomain, topic, payload, admin } = options;
+
+  const shopRecord = await prisma.shop.findUnique({
+    where: { shopDomain },
+    select: { id: true },
+  });
+
+  if (!shopRecord) {
+    console.warn(
+      `No Shop record found for domain ${shopDomain}, skipping product save`,
+    );
     return;
   }
 
-  const mergedTags = mergeProductTags(existingTags, ruleTags);
-  if (!mergedTags) {
-    // No changes required; avoid an unnecessary write.
+  if (
+    topic === "PRODUCTS_UPDATE" &&
+    (await saveOwnWriteEcho({ shopId: shopRecord.id, payload }))
+  ) {
+    console.log(
+      `Skipping ${topic} webhook for product ${payload.id}: echo of our own update`,
+    );
+    await incrementWebhookMetric(shopDomain, "echo_skipped");
     return;
   }
 
-  const mutation = `
-    mutation AutoTagProduct($input: ProductInput!) {
-      productUpdate(input: $input) {
-        product {
-          id
-          tags
-        }
-        userErrors {
-          field
-          message
-        }
-      }
-    }
-  `;
-
-  const response = await admin.graphql(mutation, {
-    variables: {
-      input: {
-        id: shopifyProductId,
-        tags: mergedTags,
-      },
-    },
+  const saved = await saveProductToDatabase({
+    shopId: shopRecord.id,
+    payload,
   });
+  if (!saved) {
+    // A newer version of the product was already processed.
+    console.warn(`Skipping stale ${topic} webhook for ${shopDomain}`);
+    await incrementWebhookMetric(shopDomain, "stale_skipped");
+    return;
+  }
 
-  const json = (await response.json()) as {
-    data?: {
-      productUpdate?: {
-        userErrors?: Array<{ field?: string[]; message: string }>;
-      };
-    };
-  };
-
-  const userErrors = json.data?.productUpdate?.userErrors ?? [];
-  if (userErrors.length > 0) {
-    console.error("AutoTagProduct userErrors", userErrors);
+  if (!admin) {
+    console.warn(
+      `Admin context missing for ${topic} webhook, skipping tagging`,
+    );
+    return;
   }
+
+  await applyProductRulesForShop({ shopDomain, admin, payload });
 }
 
+/**
+ * Process a products/delete webhook: remove the stored product and its
+ * related data, so previews, counts and runs no longer include it.
+ */
+export async function processProductDeleteWebhook(options: {
+  shopDomain: string;
+  payload: ProductDeleteWebhookPayload;
+}): Promise<void> {
+  const { shopDomain, payload } = options;
 
+  const shopRecord = await prisma.shop.findUnique({
+    where: { shopDomain },
+    select: { id: true },
+  });
+
+  if (!shopRecord) {
+    console.warn(
+      `No Shop record found for domain ${shopDomain}, skipping product delete`,
+    );
+    return;
+  }
+
+  const count = await deleteStoredProducts(shopRecord.id, [BigInt(payload.id)]);
+  if (count === 0) {
+    console.log(`Product ${payload.id} was not stored for ${shopDomain}`);
+  }
+}
@@ -0,0 +1,23 @@
+-- AlterTable
+ALTER TABLE "product_rules" ADD COLUMN "conditions" JSONB;
+
+-- Move existing single-condition rules into a one-condition AND group
+UPDATE "product_rules"
+SET "conditions" = jsonb_build_object(
+    'type', 'group',
+    'combinator', 'and',
+    'conditions', jsonb_build_array(
+        jsonb_build_object(
+            'type', 'condition',
+            'field', "field",
+            'operator', "operator",
+            'value', "value"
+        )
+    )
+);
+
+-- AlterTable
+ALTER TABLE "product_rules" ALTER COLUMN "conditions" SET NOT NULL;
+ALTER TABLE "product_rules" DROP COLUMN "field",
+DROP COLUMN "operator",
+DROP COLUMN "value";
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "products" ADD COLUMN "productType" TEXT,
+ADD COLUMN "handle" TEXT;
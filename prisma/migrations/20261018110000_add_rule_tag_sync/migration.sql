@@ -0,0 +1,23 @@
+-- AlterTable
+ALTER TABLE "product_rules" ADD COLUMN "syncTag" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateTable
+CREATE TABLE "product_tag_ownerships" (
+    "id" TEXT NOT NULL,
+    "shopId" TEXT NOT NULL,
+    "shopifyProductId" BIGINT NOT NULL,
+    "tag" TEXT NOT NULL,
+    "ruleId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "product_tag_ownerships_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "product_tag_ownerships_shopId_shopifyProductId_tag_key" ON "product_tag_ownerships"("shopId", "shopifyProductId", "tag");
+
+-- CreateIndex
+CREATE INDEX "product_tag_ownerships_shopId_ruleId_idx" ON "product_tag_ownerships"("shopId", "ruleId");
+
+-- AddForeignKey
+ALTER TABLE "product_tag_ownerships" ADD CONSTRAINT "product_tag_ownerships_shopId_fkey" FOREIGN KEY ("shopId") REFERENCES "shops"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "product_rules" ADD COLUMN "actions" JSONB NOT NULL DEFAULT '[]';
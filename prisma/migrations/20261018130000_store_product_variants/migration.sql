@@ -0,0 +1,8 @@
+-- Products used to store only the first variant's price.
+-- Keep it as the starting point for both ends of the range until the
+-- product is next synced by a webhook or the backfill script.
+ALTER TABLE "products" RENAME COLUMN "price" TO "minPrice";
+ALTER TABLE "products" ADD COLUMN "maxPrice" TEXT,
+ADD COLUMN "variants" JSONB NOT NULL DEFAULT '[]';
+
+UPDATE "products" SET "maxPrice" = "minPrice";
@@ -0,0 +1,26 @@
+-- AlterTable
+ALTER TABLE "products" ADD COLUMN "templateSuffix" TEXT;
+
+-- CreateTable
+CREATE TABLE "rule_run_jobs" (
+    "id" TEXT NOT NULL,
+    "shopId" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'running',
+    "cursor" TEXT,
+    "totalProducts" INTEGER NOT NULL DEFAULT 0,
+    "processed" INTEGER NOT NULL DEFAULT 0,
+    "changed" INTEGER NOT NULL DEFAULT 0,
+    "failed" INTEGER NOT NULL DEFAULT 0,
+    "error" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "finishedAt" TIMESTAMP(3),
+
+    CONSTRAINT "rule_run_jobs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "rule_run_jobs_shopId_createdAt_idx" ON "rule_run_jobs"("shopId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "rule_run_jobs" ADD CONSTRAINT "rule_run_jobs_shopId_fkey" FOREIGN KEY ("shopId") REFERENCES "shops"("id") ON DELETE CASCADE ON UPDATE CASCADE;
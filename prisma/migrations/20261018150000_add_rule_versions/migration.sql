@@ -0,0 +1,44 @@
+-- AlterTable
+ALTER TABLE "product_rules" ADD COLUMN "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP;
+
+-- CreateTable
+CREATE TABLE "product_rule_versions" (
+    "id" TEXT NOT NULL,
+    "shopId" TEXT NOT NULL,
+    "ruleId" TEXT NOT NULL,
+    "version" INTEGER NOT NULL,
+    "action" TEXT NOT NULL,
+    "snapshot" JSONB NOT NULL,
+    "restoredFromVersion" INTEGER,
+    "changedBy" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "product_rule_versions_pkey" PRIMARY KEY ("id")
+);
+
+-- Existing rules start their history at version 1
+INSERT INTO "product_rule_versions" ("id", "shopId", "ruleId", "version", "action", "snapshot", "createdAt")
+SELECT
+    'v1_' || "id",
+    "shopId",
+    "id",
+    1,
+    'created',
+    jsonb_build_object(
+        'conditions', "conditions",
+        'tag', "tag",
+        'syncTag', "syncTag",
+        'actions', "actions",
+        'enabled', "enabled"
+    ),
+    "createdAt"
+FROM "product_rules";
+
+-- CreateIndex
+CREATE UNIQUE INDEX "product_rule_versions_ruleId_version_key" ON "product_rule_versions"("ruleId", "version");
+
+-- CreateIndex
+CREATE INDEX "product_rule_versions_shopId_ruleId_idx" ON "product_rule_versions"("shopId", "ruleId");
+
+-- AddForeignKey
+ALTER TABLE "product_rule_versions" ADD CONSTRAINT "product_rule_versions_shopId_fkey" FOREIGN KEY ("shopId") REFERENCES "shops"("id") ON DELETE CASCADE ON UPDATE CASCADE;
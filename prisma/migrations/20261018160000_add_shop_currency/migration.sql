@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "shops" ADD COLUMN "currencyCode" TEXT;
@@ -0,0 +1,16 @@
+-- AlterTable
+ALTER TABLE "product_rules" ADD COLUMN "position" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN "exclusiveGroup" TEXT,
+ADD COLUMN "stopProcessing" BOOLEAN NOT NULL DEFAULT false;
+
+-- Keep the existing order: rules were evaluated oldest first.
+UPDATE "product_rules" AS r
+SET "position" = ordered."position"
+FROM (
+  SELECT "id", ROW_NUMBER() OVER (PARTITION BY "shopId" ORDER BY "createdAt", "id") - 1 AS "position"
+  FROM "product_rules"
+) AS ordered
+WHERE r."id" = ordered."id";
+
+-- CreateIndex
+CREATE INDEX "product_rules_shopId_position_idx" ON "product_rules"("shopId", "position");
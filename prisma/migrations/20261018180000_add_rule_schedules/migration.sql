@@ -0,0 +1,10 @@
+-- AlterTable
+ALTER TABLE "shops" ADD COLUMN "timezone" TEXT;
+
+-- AlterTable
+ALTER TABLE "product_rules" ADD COLUMN "startsAt" TIMESTAMP(3),
+ADD COLUMN "endsAt" TIMESTAMP(3),
+ADD COLUMN "scheduleState" TEXT;
+
+-- CreateIndex
+CREATE INDEX "product_rules_scheduleState_idx" ON "product_rules"("scheduleState");
@@ -0,0 +1,30 @@
+-- CreateTable
+CREATE TABLE "rule_application_logs" (
+    "id" TEXT NOT NULL,
+    "shopId" TEXT NOT NULL,
+    "shopifyProductId" BIGINT NOT NULL,
+    "productTitle" TEXT,
+    "source" TEXT NOT NULL,
+    "matchedRules" JSONB NOT NULL DEFAULT '[]',
+    "matchedRuleIds" TEXT[],
+    "tagsBefore" TEXT[],
+    "tagsAfter" TEXT[],
+    "mutated" BOOLEAN NOT NULL DEFAULT false,
+    "result" TEXT NOT NULL,
+    "error" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "rule_application_logs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "rule_application_logs_shopId_createdAt_idx" ON "rule_application_logs"("shopId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "rule_application_logs_shopId_shopifyProductId_createdAt_idx" ON "rule_application_logs"("shopId", "shopifyProductId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "rule_application_logs_matchedRuleIds_idx" ON "rule_application_logs" USING GIN ("matchedRuleIds");
+
+-- AddForeignKey
+ALTER TABLE "rule_application_logs" ADD CONSTRAINT "rule_application_logs_shopId_fkey" FOREIGN KEY ("shopId") REFERENCES "shops"("id") ON DELETE CASCADE ON UPDATE CASCADE;
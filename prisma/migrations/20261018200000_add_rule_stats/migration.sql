@@ -0,0 +1,42 @@
+-- CreateTable
+CREATE TABLE "product_rule_matches" (
+    "id" TEXT NOT NULL,
+    "shopId" TEXT NOT NULL,
+    "ruleId" TEXT NOT NULL,
+    "shopifyProductId" BIGINT NOT NULL,
+    "lastMatchedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "product_rule_matches_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "rule_daily_stats" (
+    "id" TEXT NOT NULL,
+    "shopId" TEXT NOT NULL,
+    "ruleId" TEXT NOT NULL,
+    "day" DATE NOT NULL,
+    "matches" INTEGER NOT NULL DEFAULT 0,
+    "tagsAdded" INTEGER NOT NULL DEFAULT 0,
+    "lastMatchedAt" TIMESTAMP(3),
+    "lastAddedAt" TIMESTAMP(3),
+
+    CONSTRAINT "rule_daily_stats_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "product_rule_matches_ruleId_shopifyProductId_key" ON "product_rule_matches"("ruleId", "shopifyProductId");
+
+-- CreateIndex
+CREATE INDEX "product_rule_matches_shopId_shopifyProductId_idx" ON "product_rule_matches"("shopId", "shopifyProductId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "rule_daily_stats_ruleId_day_key" ON "rule_daily_stats"("ruleId", "day");
+
+-- CreateIndex
+CREATE INDEX "rule_daily_stats_shopId_day_idx" ON "rule_daily_stats"("shopId", "day");
+
+-- AddForeignKey
+ALTER TABLE "product_rule_matches" ADD CONSTRAINT "product_rule_matches_shopId_fkey" FOREIGN KEY ("shopId") REFERENCES "shops"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "rule_daily_stats" ADD CONSTRAINT "rule_daily_stats_shopId_fkey" FOREIGN KEY ("shopId") REFERENCES "shops"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,19 @@
+-- AlterTable
+ALTER TABLE "products" ADD COLUMN "shopifyUpdatedAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "processed_webhooks" (
+    "id" TEXT NOT NULL,
+    "webhookId" TEXT NOT NULL,
+    "shopDomain" TEXT NOT NULL,
+    "topic" TEXT NOT NULL,
+    "processedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "processed_webhooks_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "processed_webhooks_webhookId_key" ON "processed_webhooks"("webhookId");
+
+-- CreateIndex
+CREATE INDEX "processed_webhooks_processedAt_idx" ON "processed_webhooks"("processedAt");
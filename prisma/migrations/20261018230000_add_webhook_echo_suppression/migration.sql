@@ -0,0 +1,17 @@
+-- AlterTable
+ALTER TABLE "products" ADD COLUMN "lastWrittenTags" TEXT[] DEFAULT ARRAY[]::TEXT[],
+ADD COLUMN "lastWrittenAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "webhook_metrics" (
+    "id" TEXT NOT NULL,
+    "shopDomain" TEXT NOT NULL,
+    "day" DATE NOT NULL,
+    "name" TEXT NOT NULL,
+    "count" INTEGER NOT NULL DEFAULT 0,
+
+    CONSTRAINT "webhook_metrics_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "webhook_metrics_shopDomain_day_name_key" ON "webhook_metrics"("shopDomain", "day", "name");
@@ -0,0 +1,21 @@
+-- CreateTable
+CREATE TABLE "inventory_levels" (
+    "id" TEXT NOT NULL,
+    "shopId" TEXT NOT NULL,
+    "inventoryItemId" BIGINT NOT NULL,
+    "locationId" BIGINT NOT NULL,
+    "available" INTEGER,
+    "shopifyUpdatedAt" TIMESTAMP(3),
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "inventory_levels_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "inventory_levels_shopId_inventoryItemId_locationId_key" ON "inventory_levels"("shopId", "inventoryItemId", "locationId");
+
+-- CreateIndex
+CREATE INDEX "products_variants_idx" ON "products" USING GIN ("variants" jsonb_path_ops);
+
+-- AddForeignKey
+ALTER TABLE "inventory_levels" ADD CONSTRAINT "inventory_levels_shopId_fkey" FOREIGN KEY ("shopId") REFERENCES "shops"("id") ON DELETE CASCADE ON UPDATE CASCADE;
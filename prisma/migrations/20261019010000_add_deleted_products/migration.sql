@@ -0,0 +1,18 @@
+-- CreateTable
+CREATE TABLE "deleted_products" (
+    "id" TEXT NOT NULL,
+    "shopId" TEXT NOT NULL,
+    "shopifyProductId" BIGINT NOT NULL,
+    "deletedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "deleted_products_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "deleted_products_shopId_shopifyProductId_key" ON "deleted_products"("shopId", "shopifyProductId");
+
+-- CreateIndex
+CREATE INDEX "deleted_products_deletedAt_idx" ON "deleted_products"("deletedAt");
+
+-- AddForeignKey
+ALTER TABLE "deleted_products" ADD CONSTRAINT "deleted_products_shopId_fkey" FOREIGN KEY ("shopId") REFERENCES "shops"("id") ON DELETE CASCADE ON UPDATE CASCADE;
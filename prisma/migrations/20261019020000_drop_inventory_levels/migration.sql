@@ -0,0 +1,5 @@
+-- DropForeignKey
+ALTER TABLE "inventory_levels" DROP CONSTRAINT "inventory_levels_shopId_fkey";
+
+-- DropTable
+DROP TABLE "inventory_levels";
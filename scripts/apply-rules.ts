@@ -0,0 +1,121 @@
+/**
+ * Apply product rules to every stored product of a shop.
+ *
+ * Usage:
+ *   npx tsx scripts/apply-rules.ts [shopDomain]
+ *
+ * If shopDomain is not provided, rules are applied for all installed shops.
+ * An interrupted or failed run for a shop is resumed from where it stopped;
+ * otherwise a new run is started.
+ */
+
+import prisma from "../app/db.server.js";
+import {
+  createAdminClient,
+  getShopSession,
+} from "../app/lib/adminClient.server.js";
+import {
+  getLatestRuleRunJob,
+  isRuleRunJobResumable,
+  resumeRuleRunJob,
+  runRuleRunJob,
+  startRuleRunJob,
+} from "../app/lib/ruleRunJobs.server.js";
+
+/**
+ * Run (or resume) rules for a specific shop
+ */
+async function applyRulesForShop(shopDomain: string): Promise<void> {
+  const shop = await prisma.shop.findUnique({
+    where: { shopDomain },
+    select: { id: true, uninstalledAt: true },
+  });
+
+  if (!shop) {
+    console.error(`Shop not found: ${shopDomain}`);
+    return;
+  }
+
+  if (shop.uninstalledAt) {
+    console.warn(`Shop is uninstalled: ${shopDomain}, skipping...`);
+    return;
+  }
+
+  const session = await getShopSession(shopDomain);
+  if (!session) {
+    console.error(`No valid session/access token found for shop: ${shopDomain}`);
+    console.error(`  Please reinstall the app on this shop to refresh the access token.`);
+    return;
+  }
+
+  const latest = await getLatestRuleRunJob(shop.id);
+  const job =
+    latest && isRuleRunJobResumable(latest)
+      ? await resumeRuleRunJob(shop.id, latest.id)
+      : await startRuleRunJob(shop.id);
+
+  if (!job) {
+    console.warn(`A run is already in progress for ${shopDomain}, skipping...`);
+    return;
+  }
+
+  console.log(
+    job.id === latest?.id
+      ? `Resuming run ${job.id} at ${job.processed}/${job.totalProducts} products...`
+      : `Starting run ${job.id} for ${job.totalProducts} products...`,
+  );
+
+  const result = await runRuleRunJob(
+    job,
+    createAdminClient(shopDomain, session.accessToken),
+  );
+
+  console.log(`\n${result.status === "completed" ? "✅" : "❌"} Run ${result.status} for ${shopDomain}:`);
+  console.log(`   - Products processed: ${result.processed}/${result.totalProducts}`);
+  console.log(`   - Products changed: ${result.changed}`);
+  console.log(`   - Failed: ${result.failed}`);
+  if (result.error) {
+    console.log(`   - Error: ${result.error}`);
+  }
+}
+
+/**
+ * Main function
+ */
+async function main() {
+  const shopDomain = process.argv[2];
+
+  if (shopDomain) {
+    console.log(`Applying rules for shop: ${shopDomain}\n`);
+    await applyRulesForShop(shopDomain);
+    return;
+  }
+
+  console.log("Applying rules for all installed shops...\n");
+
+  const shops = await prisma.shop.findMany({
+    where: { uninstalledAt: null },
+    select: { shopDomain: true },
+  });
+
+  if (shops.length === 0) {
+    console.log("No installed shops found.");
+    return;
+  }
+
+  for (const shop of shops) {
+    console.log(`\n${"=".repeat(60)}`);
+    await applyRulesForShop(shop.shopDomain);
+  }
+}
+
+// Run the script
+main()
+  .then(() => {
+    console.log("\n✨ Script completed successfully!");
+    process.exit(0);
+  })
+  .catch((error) => {
+    console.error("\n❌ Script failed:", error);
+    process.exit(1);
+  });
@@ -2,54 +2,23 @@
  * Backfill script to fetch all existing products from Shopify and save them to the database.
  * 
  * Usage:
- *   npx tsx scripts/backfill-products.ts [shopDomain]
+ *   npx tsx scripts/backfill-products.ts [shopDomain] [--reconcile]
  * 
  * If shopDomain is not provided, it will backfill products for all installed shops.
+ * With --reconcile, stored products that no longer exist in Shopify (e.g.
+ * deleted while the products/delete webhook wasn't subscribed) are removed.
  */
 
 import prisma from "../app/db.server.js";
 import { saveProductToDatabase, type ProductWebhookPayload } from "../app/webhooks/products.server.js";
-
-// Shopify Admin API GraphQL client setup
-// Using stable API version 2024-10 (matches October24/October25)
-async function createShopifyClient(shopDomain: string, accessToken: string) {
-  const shopifyAdminUrl = `https://${shopDomain}/admin/api/2024-10/graphql.json`;
-
-  return {
-    graphql: async (query: string, variables?: unknown) => {
-      const response = await fetch(shopifyAdminUrl, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          "X-Shopify-Access-Token": accessToken,
-        },
-        body: JSON.stringify({ query, variables }),
-      });
-
-      if (!response.ok) {
-        const errorText = await response.text();
-        let errorMessage = `Shopify API error: ${response.status} ${response.statusText}`;
-        
-        // Try to parse error details if available
-        try {
-          const errorJson = JSON.parse(errorText);
-          if (errorJson.errors) {
-            errorMessage += `\n  Errors: ${JSON.stringify(errorJson.errors, null, 2)}`;
-          }
-        } catch {
-          // If not JSON, include the raw text
-          if (errorText) {
-            errorMessage += `\n  Response: ${errorText.substring(0, 200)}`;
-          }
-        }
-        
-        throw new Error(errorMessage);
-      }
-
-      return response;
-    },
-  };
-}
+import {
+  createAdminClient,
+  getShopSession,
+} from "../app/lib/adminClient.server.js";
+import {
+  deleteStoredProducts,
+  getStoredProductIds,
+} from "../app/lib/products.server.js";
 
 // GraphQL query to fetch products with pagination
 const PRODUCTS_QUERY = `
@@ -64,13 +33,28 @@ const PRODUCTS_QUERY = `
           id
           title
           vendor
+          productType
+          handle
+          templateSuffix
           status
           tags
+          updatedAt
           variants(first: 250) {
             edges {
               node {
                 price
+                compareAtPrice
+                sku
                 inventoryQuantity
+                inventoryItem {
+                  legacyResourceId
+                  measurement {
+                    weight {
+                      value
+                      unit
+                    }
+                  }
+                }
               }
             }
           }
@@ -84,18 +68,41 @@ interface GraphQLProduct {
   id: string;
   title: string;
   vendor: string | null;
+  productType: string | null;
+  handle: string | null;
+  templateSuffix: string | null;
   status: string;
   tags: string[];
+  updatedAt: string;
   variants: {
     edges: Array<{
       node: {
         price: string;
+        compareAtPrice: string | null;
+        sku: string | null;
         inventoryQuantity: number | null;
+        inventoryItem?: {
+          legacyResourceId: string;
+          measurement?: {
+            weight?: {
+              value: number;
+              unit: "GRAMS" | "KILOGRAMS" | "POUNDS" | "OUNCES";
+            } | null;
+          } | null;
+        } | null;
       };
     }>;
   };
 }
 
+// GraphQL WeightUnit -> REST weight_unit used by webhook payloads
+const WEIGHT_UNITS: Record<string, string> = {
+  GRAMS: "g",
+  KILOGRAMS: "kg",
+  POUNDS: "lb",
+  OUNCES: "oz",
+};
+
 /**
  * Convert GraphQL product to webhook payload format
  */
@@ -110,12 +117,25 @@ function graphQLProductToWebhookPayload(
     id,
     title: product.title || null,
     vendor: product.vendor || null,
+    product_type: product.productType || null,
+    handle: product.handle || null,
+    template_suffix: product.templateSuffix || null,
     status: product.status?.toLowerCase() || null,
     tags: product.tags?.join(", ") || null,
-    variants: product.variants.edges.map((edge) => ({
-      price: edge.node.price || null,
-      inventory_quantity: edge.node.inventoryQuantity || null,
-    })),
+    updated_at: product.updatedAt || null,
+    variants: product.variants.edges.map((edge) => {
+      const weight = edge.node.inventoryItem?.measurement?.weight;
+
+      return {
+        price: edge.node.price || null,
+        compare_at_price: edge.node.compareAtPrice || null,
+        sku: edge.node.sku || null,
+        inventory_quantity: edge.node.inventoryQuantity ?? null,
+        inventory_item_id: edge.node.inventoryItem?.legacyResourceId ?? null,
+        weight: weight?.value ?? null,
+        weight_unit: weight ? WEIGHT_UNITS[weight.unit] ?? null : null,
+      };
+    }),
   };
 }
 
@@ -126,7 +146,7 @@ async function fetchAllProducts(
   shopDomain: string,
   accessToken: string,
 ): Promise<ProductWebhookPayload[]> {
-  const client = await createShopifyClient(shopDomain, accessToken);
+  const client = createAdminClient(shopDomain, accessToken);
   const allProducts: ProductWebhookPayload[] = [];
   let hasNextPage = true;
   let cursor: string | null = null;
@@ -135,8 +155,10 @@ async function fetchAllProducts(
 
   while (hasNextPage) {
     const response = await client.graphql(PRODUCTS_QUERY, {
-      first: 250, // Maximum allowed by Shopify
-      after: cursor,
+      variables: {
+        first: 250, // Maximum allowed by Shopify
+        after: cursor,
+      },
     });
 
     const json = (await response.json()) as {
@@ -185,10 +207,34 @@ async function fetchAllProducts(
   return allProducts;
 }
 
+/**
+ * Remove stored products missing from a complete fetch of the shop's
+ * products. Rows stored after the fetch started are kept: those products
+ * were created meanwhile, not deleted.
+ */
+async function reconcileShop(
+  shopId: string,
+  fetchedProducts: ProductWebhookPayload[],
+  fetchStartedAt: Date,
+): Promise<number> {
+  const fetchedIds = new Set(fetchedProducts.map((product) => BigInt(product.id)));
+  const storedIds = await getStoredProductIds(shopId, fetchStartedAt);
+  const missingIds = storedIds.filter((id) => !fetchedIds.has(id));
+
+  for (const id of missingIds) {
+    console.log(`  Removing product ${id}: no longer exists in Shopify`);
+  }
+
+  return deleteStoredProducts(shopId, missingIds);
+}
+
 /**
  * Backfill products for a specific shop
  */
-async function backfillShop(shopDomain: string): Promise<void> {
+async function backfillShop(
+  shopDomain: string,
+  options: { reconcile: boolean },
+): Promise<void> {
   const shop = await prisma.shop.findUnique({
     where: { shopDomain },
     select: { id: true, uninstalledAt: true },
@@ -205,37 +251,8 @@ async function backfillShop(shopDomain: string): Promise<void> {
   }
 
   // Get the latest session from Session table (has the most up-to-date access token)
-  // Try offline session first (preferred for background scripts)
-  let session = await prisma.session.findFirst({
-    where: {
-      shop: shopDomain,
-      isOnline: false,
-    },
-    orderBy: {
-      expires: 'desc',
-    },
-    select: {
-      accessToken: true,
-      expires: true,
-    },
-  });
-
-  // Fallback to online session if no offline session found
-  if (!session) {
-    session = await prisma.session.findFirst({
-      where: {
-        shop: shopDomain,
-        isOnline: true,
-      },
-      orderBy: {
-        expires: 'desc',
-      },
-      select: {
-        accessToken: true,
-        expires: true,
-      },
-    });
-  }
+  // Offline sessions are preferred for background scripts
+  const session = await getShopSession(shopDomain);
 
   if (!session || !session.accessToken) {
     console.error(`No valid session/access token found for shop: ${shopDomain}`);
@@ -250,19 +267,26 @@ async function backfillShop(shopDomain: string): Promise<void> {
   }
 
   try {
+    const fetchStartedAt = new Date();
     const products = await fetchAllProducts(shopDomain, session.accessToken);
 
     console.log(`Saving ${products.length} products to database...`);
 
     let saved = 0;
+    let stale = 0;
     let errors = 0;
 
     for (const product of products) {
       try {
-        await saveProductToDatabase({
+        const written = await saveProductToDatabase({
           shopId: shop.id,
           payload: product,
         });
+        if (!written) {
+          // A webhook stored a newer version while we were fetching.
+          stale++;
+          continue;
+        }
         saved++;
         if (saved % 50 === 0) {
           console.log(`  Saved ${saved}/${products.length} products...`);
@@ -276,10 +300,19 @@ async function backfillShop(shopDomain: string): Promise<void> {
       }
     }
 
+    // Only after a complete fetch: fetchAllProducts throws on any error.
+    const removed = options.reconcile
+      ? await reconcileShop(shop.id, products, fetchStartedAt)
+      : 0;
+
     console.log(
       `\n✅ Completed backfill for ${shopDomain}:`,
     );
     console.log(`   - Products saved: ${saved}`);
+    console.log(`   - Skipped (newer version already stored): ${stale}`);
+    if (options.reconcile) {
+      console.log(`   - Removed (deleted in Shopify): ${removed}`);
+    }
     console.log(`   - Errors: ${errors}`);
   } catch (error) {
     console.error(
@@ -294,12 +327,14 @@ async function backfillShop(shopDomain: string): Promise<void> {
  * Main function
  */
 async function main() {
-  const shopDomain = process.argv[2];
+  const args = process.argv.slice(2);
+  const shopDomain = args.find((arg) => !arg.startsWith("--"));
+  const options = { reconcile: args.includes("--reconcile") };
 
   if (shopDomain) {
     // Backfill specific shop
     console.log(`Backfilling products for shop: ${shopDomain}\n`);
-    await backfillShop(shopDomain);
+    await backfillShop(shopDomain, options);
   } else {
     // Backfill all installed shops
     console.log("Backfilling products for all installed shops...\n");
@@ -322,7 +357,7 @@ async function main() {
 
     for (const shop of shops) {
       console.log(`\n${"=".repeat(60)}`);
-      await backfillShop(shop.shopDomain);
+      await backfillShop(shop.shopDomain, options);
     }
 
     console.log(`\n${"=".repeat(60)}`);
@@ -0,0 +1,89 @@
+/**
+ * Process queued webhook jobs.
+ *
+ * Usage:
+ *   npx tsx scripts/process-webhook-jobs.ts [--once]
+ *
+ * Runs until stopped (Ctrl+C or SIGTERM), polling for due jobs. The job in
+ * progress is finished before exiting. With --once, the jobs that are due
+ * are processed and the script exits, e.g. to run it from cron.
+ * Several workers can run at the same time.
+ */
+
+import {
+  runNextWebhookJob,
+  type WebhookJob,
+} from "../app/lib/webhookJobs.server.js";
+
+const POLL_INTERVAL_MS = 5000;
+
+let stopping = false;
+
+function describeJob(job: WebhookJob): string {
+  const payload = job.payload as { id?: number } | null;
+  return `${job.topic} for ${job.shopDomain}${payload?.id ? ` (product ${payload.id})` : ""}`;
+}
+
+/**
+ * Process jobs until none are due (or the worker is stopping).
+ * Returns the number of jobs processed.
+ */
+async function drainQueue(): Promise<number> {
+  let processed = 0;
+
+  while (!stopping) {
+    const result = await runNextWebhookJob();
+    if (!result) break;
+
+    processed++;
+    const { job, status } = result;
+    if (status === "completed") {
+      console.log(`✅ ${describeJob(job)}`);
+    } else if (status === "dead") {
+      console.log(`❌ ${describeJob(job)}: giving up after ${job.attempts} attempts`);
+    } else {
+      console.log(`⚠️  ${describeJob(job)}: attempt ${job.attempts} failed, will retry`);
+    }
+  }
+
+  return processed;
+}
+
+/**
+ * Main function
+ */
+async function main() {
+  const once = process.argv.includes("--once");
+
+  if (once) {
+    const processed = await drainQueue();
+    console.log(`Processed ${processed} jobs.`);
+    return;
+  }
+
+  for (const signal of ["SIGINT", "SIGTERM"] as const) {
+    process.on(signal, () => {
+      console.log(`\nReceived ${signal}, stopping after the current job...`);
+      stopping = true;
+    });
+  }
+
+  console.log("Waiting for webhook jobs...");
+  while (!stopping) {
+    await drainQueue();
+    if (!stopping) {
+      await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL_MS));
+    }
+  }
+}
+
+// Run the script
+main()
+  .then(() => {
+    console.log("\n✨ Worker stopped.");
+    process.exit(0);
+  })
+  .catch((error) => {
+    console.error("\n❌ Worker failed:", error);
+    process.exit(1);
+  });
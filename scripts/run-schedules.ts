@@ -0,0 +1,141 @@
+/**
+ * Re-run product rules for shops whose scheduled rules started or ended.
+ *
+ * Usage:
+ *   npx tsx scripts/run-schedules.ts
+ *
+ * Meant to run every few minutes (e.g. from cron). Tags of a scheduled rule
+ * change at most one interval after its start or end time. Rule application
+ * log entries, processed webhook ids, completed webhook jobs and records of
+ * deleted products past their retention limit are deleted on every run.
+ * A shop with a run already in progress is retried on the next invocation.
+ */
+
+import {
+  createAdminClient,
+  getShopSession,
+} from "../app/lib/adminClient.server.js";
+import {
+  pruneProcessedWebhooks,
+  PROCESSED_WEBHOOK_RETENTION_DAYS,
+} from "../app/lib/processedWebhooks.server.js";
+import {
+  DELETED_PRODUCT_RETENTION_DAYS,
+  pruneDeletedProducts,
+} from "../app/lib/products.server.js";
+import {
+  pruneRuleApplicationLogs,
+  RULE_APPLICATION_LOG_RETENTION_DAYS,
+} from "../app/lib/ruleApplicationLog.server.js";
+import {
+  runRuleRunJob,
+  startRuleRunJob,
+} from "../app/lib/ruleRunJobs.server.js";
+import {
+  claimScheduleTransitions,
+  getDueScheduleTransitions,
+  type ShopScheduleTransitions,
+} from "../app/lib/ruleSchedules.server.js";
+import {
+  COMPLETED_JOB_RETENTION_DAYS,
+  pruneWebhookJobs,
+} from "../app/lib/webhookJobs.server.js";
+
+/**
+ * Apply a shop's schedule changes by running its rules on all products
+ */
+async function runSchedulesForShop({
+  shopId,
+  shopDomain,
+  transitions,
+}: ShopScheduleTransitions): Promise<void> {
+  const session = await getShopSession(shopDomain);
+  if (!session) {
+    console.error(`No valid session/access token found for shop: ${shopDomain}`);
+    console.error(`  Please reinstall the app on this shop to refresh the access token.`);
+    return;
+  }
+
+  // Start the run before claiming, so transitions stay pending (and are
+  // retried next time) while another run is in progress.
+  const job = await startRuleRunJob(shopId);
+  if (!job) {
+    console.warn(`A run is already in progress for ${shopDomain}, retrying next time...`);
+    return;
+  }
+
+  const claimed = await claimScheduleTransitions(shopId, transitions);
+  for (const transition of claimed) {
+    console.log(`   - "${transition.tag}" rule: ${transition.from} → ${transition.to}`);
+  }
+
+  console.log(`Starting run ${job.id} for ${job.totalProducts} products...`);
+
+  const result = await runRuleRunJob(
+    job,
+    createAdminClient(shopDomain, session.accessToken),
+  );
+
+  console.log(`\n${result.status === "completed" ? "✅" : "❌"} Run ${result.status} for ${shopDomain}:`);
+  console.log(`   - Products processed: ${result.processed}/${result.totalProducts}`);
+  console.log(`   - Products changed: ${result.changed}`);
+  console.log(`   - Failed: ${result.failed}`);
+  if (result.error) {
+    console.log(`   - Error: ${result.error}`);
+  }
+}
+
+/**
+ * Main function
+ */
+async function main() {
+  // This script runs regularly, so it also enforces the retention limits.
+  const pruned = await pruneRuleApplicationLogs();
+  if (pruned > 0) {
+    console.log(
+      `Deleted ${pruned} rule application log entries older than ${RULE_APPLICATION_LOG_RETENTION_DAYS} days.`,
+    );
+  }
+  const prunedWebhooks = await pruneProcessedWebhooks();
+  if (prunedWebhooks > 0) {
+    console.log(
+      `Deleted ${prunedWebhooks} processed webhook ids older than ${PROCESSED_WEBHOOK_RETENTION_DAYS} days.`,
+    );
+  }
+  const prunedJobs = await pruneWebhookJobs();
+  if (prunedJobs > 0) {
+    console.log(
+      `Deleted ${prunedJobs} completed webhook jobs older than ${COMPLETED_JOB_RETENTION_DAYS} days.`,
+    );
+  }
+  const prunedDeleted = await pruneDeletedProducts();
+  if (prunedDeleted > 0) {
+    console.log(
+      `Deleted ${prunedDeleted} deleted product records older than ${DELETED_PRODUCT_RETENTION_DAYS} days.`,
+    );
+  }
+
+  const due = await getDueScheduleTransitions();
+
+  if (due.length === 0) {
+    console.log("No rule schedules started or ended.");
+    return;
+  }
+
+  for (const shop of due) {
+    console.log(`\n${"=".repeat(60)}`);
+    console.log(`Schedules changed for shop: ${shop.shopDomain}`);
+    await runSchedulesForShop(shop);
+  }
+}
+
+// Run the script
+main()
+  .then(() => {
+    console.log("\n✨ Script completed successfully!");
+    process.exit(0);
+  })
+  .catch((error) => {
+    console.error("\n❌ Script failed:", error);
+    process.exit(1);
+  });